@@ -18,7 +18,111 @@
 import type { LaunchOptions } from 'playwright';
 import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
 
-type ToolCapability = 'core' | 'tabs' | 'pdf' | 'history' | 'wait' | 'files' | 'install';
+type ToolCapability = 'core' | 'tabs' | 'pdf' | 'history' | 'wait' | 'files' | 'install' | 'tracing';
+
+type CredentialsSource =
+  /**
+   * Environment variables, INIAD_USERNAME and INIAD_PASSWORD by default.
+   */
+  { type: 'env', usernameEnv?: string, passwordEnv?: string } |
+  /**
+   * JSON or YAML file with "username" and "password", readable only by its owner.
+   */
+  { type: 'file', path: string } |
+  /**
+   * Command printing the password on its first line, e.g. `pass show iniad`.
+   * The username defaults to the INIAD_USERNAME environment variable.
+   */
+  { type: 'command', command: string, username?: string, usernameEnv?: string } |
+  /**
+   * The user logs in in the headed browser window, nothing is stored.
+   */
+  { type: 'interactive' };
+
+type Profile = {
+  /**
+   * Name used to select the profile.
+   */
+  name: string;
+
+  /**
+   * Path to the user data directory of the profile.
+   */
+  userDataDir: string;
+
+  /**
+   * Path to the file the login session of the profile is saved to.
+   */
+  storageState?: string;
+
+  /**
+   * Where to read the INIAD credentials of the profile from.
+   */
+  credentials?: CredentialsSource;
+};
+
+type SiteConfig = {
+  /**
+   * Origin (and optional path prefix) of the MOOCs site.
+   * @default 'https://moocs.iniad.org'
+   */
+  baseUrl?: string;
+
+  /**
+   * Host of the INIAD ID Manager the MOOCs site redirects to for login.
+   * @default 'id.iniad.org'
+   */
+  idManagerHost?: string;
+
+  /**
+   * Path of the course list, relative to the base URL.
+   * @default '/courses'
+   */
+  coursesPath?: string;
+
+  /**
+   * Names of the cookies holding the MOOCs login session, used to report
+   * when the session expires.
+   * @default ['sessionid']
+   */
+  sessionCookies?: string[];
+};
+
+type PageSelectors = {
+  login?: {
+    signInLink?: string;
+    username?: string;
+    password?: string;
+    submit?: string;
+  };
+  navbar?: {
+    user?: string;
+    sidebarToggle?: string;
+  };
+  courses?: {
+    courseHeading?: string;
+    viewCourseLink?: string;
+  };
+  course?: {
+    lectureLinks?: string;
+    sections?: string;
+    sectionTitle?: string;
+    lectureStatus?: string;
+    bookmarkLink?: string;
+  };
+  lecture?: {
+    slideLinks?: string;
+    content?: string;
+  };
+};
+
+type SelectorOverrides = PageSelectors & {
+  /**
+   * Version of the default selectors the overrides apply to.
+   * @default '2025'
+   */
+  version?: string;
+};
 
 type Options = {
   /**
@@ -26,6 +130,83 @@ type Options = {
    */
   userDataDir?: string;
 
+  /**
+   * Path to the file where the MOOCs login session (Playwright storage state)
+   * is saved after a successful login and restored from when a browser
+   * context is created.
+   */
+  storageState?: string;
+
+  /**
+   * Where to read the INIAD credentials of the default profile from.
+   * @default { type: 'env' }
+   */
+  credentials?: CredentialsSource;
+
+  /**
+   * Additional account profiles that can be switched to at runtime.
+   * The top-level userDataDir and storageState make up the "default" profile.
+   */
+  profiles?: Profile[];
+
+  /**
+   * Name of the profile to start with.
+   * @default 'default'
+   */
+  profile?: string;
+
+  /**
+   * MOOCs site to operate on, e.g. a local mirror for testing.
+   */
+  site?: SiteConfig;
+
+  /**
+   * Playwright selectors to use instead of the defaults, grouped by page type,
+   * for when the MOOCs markup changes before a new release is available.
+   */
+  selectors?: SelectorOverrides;
+
+  /**
+   * Directory to save downloaded attachments into.
+   * @default '~/INIAD-MOOCs'
+   */
+  workspaceDir?: string;
+
+  /**
+   * Directory to save failure bundles (screenshot, snapshot, console messages
+   * and trace of a failed tool call) and the traces of tool calls into.
+   * @default '<tmpdir>/iniad-moocs-mcp-output'
+   */
+  outputDir?: string;
+
+  /**
+   * Number of failure bundles to keep, older ones are deleted.
+   * @default 20
+   */
+  keepFailures?: number;
+
+  /**
+   * Record a Playwright trace of every tool call and keep it in the failure
+   * bundle when the call fails.
+   * @default false
+   */
+  traceFailures?: boolean;
+
+  /**
+   * Save a Playwright trace of every tool call to the traces directory below
+   * the output directory, named after the tool and its arguments.
+   * @default false
+   */
+  saveTrace?: boolean;
+
+  /**
+   * Never submit assignments: submit_assignment fills in the answers and
+   * reports what would be submitted, but does not click the submit button,
+   * and the other tools refuse to click submit buttons or press Enter in forms.
+   * @default false
+   */
+  readOnly?: boolean;
+
   /**
    * Launch options for the browser.
    */
@@ -0,0 +1,164 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+import type * as playwright from 'playwright';
+import type { Selectors } from './selectors';
+
+export type Attachment = {
+  /**
+   * 1-based position of the attachment on the page.
+   */
+  index: number;
+  /**
+   * File name to save the attachment as.
+   */
+  name: string;
+  /**
+   * Text of the link, or the title of the embedded file.
+   */
+  title: string;
+  url: string;
+  source: 'link' | 'embed';
+};
+
+/**
+ * File types that lecture pages link to as material rather than as web pages:
+ * notebooks, source code, datasets, documents, images and media.
+ */
+export const attachmentPattern = /\.(?:pdf|zip|tar|gz|ipynb|py|c|cpp|h|java|js|ts|txt|csv|tsv|json|xml|md|pptx?|docx?|xlsx?|png|jpe?g|gif|svg|mp3|mp4|wav)$/i;
+
+// Records the URL each file in a download directory was downloaded from.
+const sourcesFileName = '.attachments.json';
+
+/**
+ * Finds the files linked or embedded in the content of the page: links to
+ * attachment file types or with a download attribute, and frames, embeds and
+ * objects showing such files.
+ */
+export async function scrapeAttachments(page: playwright.Page, selectors: Selectors): Promise<Attachment[]> {
+  const content = page.locator(selectors.lecture.content).first();
+  const root = await content.count() ? content : page.locator('body');
+  const candidates = await root.evaluate((root, pattern) => {
+    const regex = new RegExp(pattern, 'i');
+    const results: Omit<Attachment, 'index'>[] = [];
+    for (const element of root.querySelectorAll('a[href], iframe[src], embed[src], object[data]')) {
+      const isLink = element.tagName === 'A';
+      let url: URL;
+      try {
+        url = new URL(element.getAttribute(isLink ? 'href' : element.tagName === 'OBJECT' ? 'data' : 'src')!, element.ownerDocument.baseURI);
+      } catch (error) {
+        continue;
+      }
+      const download = isLink ? element.getAttribute('download') : null;
+      if (!/^https?:$/.test(url.protocol) || (download === null && !regex.test(url.pathname)))
+        continue;
+      url.hash = '';
+      results.push({
+        name: download || decodeURIComponent(url.pathname.split('/').pop() || 'file'),
+        title: (element.textContent || element.getAttribute('title') || '').replace(/\s+/g, ' ').trim(),
+        url: url.href,
+        source: isLink ? 'link' : 'embed',
+      });
+    }
+    return results;
+  }, attachmentPattern.source);
+
+  const attachments: Attachment[] = [];
+  for (const candidate of candidates) {
+    if (!attachments.some(attachment => attachment.url === candidate.url))
+      attachments.push({ index: attachments.length + 1, ...candidate });
+  }
+  return attachments;
+}
+
+/**
+ * Saves an attachment into the directory. Files of the site the page is on
+ * are downloaded by the browser, files of other sites are fetched with the
+ * cookies of the browser, as browsers open them instead of downloading them.
+ * An existing file of the same URL is kept unless it is to be overwritten, so
+ * that edits to a downloaded starter file are not lost. An attachment whose
+ * name is taken by a file of another URL gets a name with a hash of its URL.
+ */
+export async function downloadAttachment(page: playwright.Page, attachment: Attachment, directory: string, overwrite: boolean): Promise<{ path: string, status: 'downloaded' | 'existing' }> {
+  await fs.promises.mkdir(directory, { recursive: true });
+  const sourcesPath = path.join(directory, sourcesFileName);
+  const sources = await readSources(sourcesPath);
+  const name = attachmentFileName(attachment, sources);
+  const target = path.join(directory, name);
+  const isRecorded = sources[name] === attachment.url;
+  sources[name] = attachment.url;
+  if (!overwrite && fs.existsSync(target)) {
+    if (!isRecorded)
+      await fs.promises.writeFile(sourcesPath, JSON.stringify(sources, null, 2));
+    return { path: target, status: 'existing' };
+  }
+
+  if (new URL(attachment.url).origin === new URL(page.url()).origin) {
+    const [download] = await Promise.all([
+      page.waitForEvent('download', { timeout: 60000 }),
+      page.evaluate(({ url, name }) => {
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = name;
+        link.style.display = 'none';
+        document.body.appendChild(link);
+        link.click();
+        link.remove();
+      }, { url: attachment.url, name: attachment.name }),
+    ]);
+    await download.saveAs(target);
+    const failure = await download.failure();
+    if (failure)
+      throw new Error(`Downloading ${attachment.url} failed: ${failure}`);
+  } else {
+    const response = await page.request.get(attachment.url, { timeout: 60000 });
+    if (!response.ok())
+      throw new Error(`Downloading ${attachment.url} failed: HTTP ${response.status()}`);
+    await fs.promises.writeFile(target, await response.body());
+  }
+  await fs.promises.writeFile(sourcesPath, JSON.stringify(sources, null, 2));
+  return { path: target, status: 'downloaded' };
+}
+
+async function readSources(sourcesPath: string): Promise<Record<string, string>> {
+  try {
+    return JSON.parse(await fs.promises.readFile(sourcesPath, 'utf-8'));
+  } catch (error) {
+    return {};
+  }
+}
+
+function attachmentFileName(attachment: Attachment, sources: Record<string, string>): string {
+  const recorded = Object.keys(sources).find(name => sources[name] === attachment.url);
+  if (recorded)
+    return recorded;
+  // A file downloaded before its URL was recorded is taken to be the first attachment of that name.
+  const name = safeFileName(attachment.name);
+  if (!sources[name])
+    return name;
+  const extension = path.extname(name);
+  const hash = crypto.createHash('sha256').update(attachment.url).digest('hex').slice(0, 8);
+  return `${path.basename(name, extension)}-${hash}${extension}`;
+}
+
+function safeFileName(name: string): string {
+  const base = path.basename(name.replace(/\\/g, '/')).replace(/[\x00-\x1f<>:"/\\|?*]/g, '-').trim();
+  return base && base !== '.' && base !== '..' ? base : 'file';
+}
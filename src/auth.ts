@@ -0,0 +1,89 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type * as playwright from 'playwright';
+import type { Credentials } from './credentials';
+import type { Selectors } from './selectors';
+import type { Site } from './site';
+
+export type LoginResult = 'logged-in' | 'already-logged-in';
+
+const interactiveLoginTimeout = 5 * 60 * 1000;
+
+/**
+ * Whether the page shows the INIAD ID Manager form or the MOOCs
+ * "Sign in with INIAD Account" page, i.e. the MOOCs session is gone.
+ */
+export async function isLoginPage(page: playwright.Page, site: Site, selectors: Selectors): Promise<boolean> {
+  if (!/^https?:/.test(page.url()))
+    return false;
+  if (site.isIdManagerUrl(page.url()))
+    return true;
+  if (await page.locator(selectors.login.password).first().isVisible())
+    return true;
+  return await page.locator(selectors.login.signInLink).first().isVisible();
+}
+
+/**
+ * Logs in with the given credentials, or waits for the user to log in in the
+ * browser window when no credentials are given.
+ */
+export async function loginToMoocs(page: playwright.Page, site: Site, selectors: Selectors, credentials: Credentials | undefined): Promise<LoginResult> {
+  await page.goto(site.url());
+
+  const signInLink = page.locator(selectors.login.signInLink);
+  if (await signInLink.isVisible()) {
+    await signInLink.click();
+    await page.waitForLoadState('domcontentloaded');
+  } else if (!await page.locator(selectors.login.username).isVisible()) {
+    return 'already-logged-in';
+  }
+
+  if (!credentials) {
+    await waitForManualLogin(page, site, selectors);
+    return 'logged-in';
+  }
+
+  // The ID Manager may still remember the user, in which case it redirects back without a form.
+  if (await page.locator(selectors.login.username).isVisible()) {
+    await page.locator(selectors.login.username).fill(credentials.username);
+    await page.locator(selectors.login.password).fill(credentials.password);
+    await page.locator(selectors.login.submit).click();
+    await page.waitForURL(url => site.isMoocsUrl(url.toString()), { timeout: 5000 });
+  }
+
+  await page.waitForSelector('body', { state: 'visible', timeout: 5000 });
+  if (await isLoginPage(page, site, selectors))
+    throw new Error('Could not confirm final login state.');
+  return 'logged-in';
+}
+
+async function waitForManualLogin(page: playwright.Page, site: Site, selectors: Selectors) {
+  const deadline = Date.now() + interactiveLoginTimeout;
+  while (!site.isMoocsUrl(page.url()) || await isLoginPage(page, site, selectors)) {
+    if (Date.now() > deadline)
+      throw new Error('Timed out waiting for the login to be completed in the browser window.');
+    await page.waitForTimeout(1000);
+  }
+}
+
+export async function readNavbarUser(page: playwright.Page, selectors: Selectors): Promise<string | undefined> {
+  const user = page.locator(selectors.navbar.user).first();
+  if (!await user.isVisible())
+    return undefined;
+  const text = (await user.textContent() ?? '').trim();
+  return text || undefined;
+}
@@ -0,0 +1,82 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import yaml from 'yaml';
+import { z } from 'zod';
+
+import { selectorOverridesSchema } from './selectors';
+
+const credentialsSourceSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('env'),
+    usernameEnv: z.string().optional(),
+    passwordEnv: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('file'),
+    path: z.string(),
+  }),
+  z.object({
+    type: z.literal('command'),
+    command: z.string(),
+    username: z.string().optional(),
+    usernameEnv: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('interactive'),
+  }),
+]);
+
+const profileConfigSchema = z.object({
+  userDataDir: z.string().optional(),
+  storageState: z.string().optional(),
+  credentials: credentialsSourceSchema.optional(),
+});
+
+const configSchema = z.object({
+  defaultProfile: z.string().optional(),
+  profiles: z.record(profileConfigSchema).optional(),
+  selectors: selectorOverridesSchema.optional(),
+});
+
+export type CredentialsSource = z.infer<typeof credentialsSourceSchema>;
+export type Config = z.infer<typeof configSchema>;
+
+/**
+ * Loads a JSON or YAML config file. Relative paths inside the file are
+ * resolved against the directory of the file.
+ */
+export async function loadConfig(configFile: string): Promise<Config> {
+  const text = await fs.promises.readFile(configFile, 'utf8');
+  const result = configSchema.safeParse(yaml.parse(text) ?? {});
+  if (!result.success)
+    throw new Error(`Invalid config file ${configFile}: ${result.error.message}`);
+
+  const config = result.data;
+  const baseDir = path.dirname(path.resolve(configFile));
+  for (const profile of Object.values(config.profiles ?? {})) {
+    if (profile.userDataDir)
+      profile.userDataDir = path.resolve(baseDir, profile.userDataDir);
+    if (profile.storageState)
+      profile.storageState = path.resolve(baseDir, profile.storageState);
+    if (profile.credentials?.type === 'file')
+      profile.credentials.path = path.resolve(baseDir, profile.credentials.path);
+  }
+  return config;
+}
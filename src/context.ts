@@ -14,21 +14,72 @@
  * limitations under the License.
  */
 
+import os from 'os';
+import path from 'path';
+
 import * as playwright from 'playwright';
 import yaml from 'yaml';
 
 import { waitForCompletion } from './tools/utils';
+import { isLoginPage, loginToMoocs } from './auth';
+import { createCredentialProvider } from './credentials';
+import { readChildFrame } from './frames';
+import { SessionStore } from './session';
+import { resolveSelectors } from './selectors';
+import { Site } from './site';
 import { ToolResult } from './tools/tool';
 
+import type { LoginResult } from './auth';
+import type { CredentialsSource } from './config';
+import type { PageOrFrameLocator } from './frames';
+import type { SelectorOverrides, Selectors } from './selectors';
+import type { SiteConfig } from './site';
+
+export type Profile = {
+  name: string;
+  userDataDir: string;
+  storageState?: string;
+  credentials?: CredentialsSource;
+};
+
 export type ContextOptions = {
   browserName?: 'chromium' | 'firefox' | 'webkit';
   userDataDir: string;
   launchOptions?: playwright.LaunchOptions;
   cdpEndpoint?: string;
   remoteEndpoint?: string;
+  storageState?: string;
+  credentials?: CredentialsSource;
+  profiles?: Profile[];
+  profile?: string;
+  site?: Partial<SiteConfig>;
+  selectors?: SelectorOverrides;
+  workspaceDir?: string;
+  outputDir?: string;
+  /**
+   * Number of failure bundles to keep in the output directory.
+   */
+  keepFailures?: number;
+  /**
+   * Record a Playwright trace of every tool call, to keep it with the failure
+   * bundle when the call fails.
+   */
+  traceFailures?: boolean;
+  /**
+   * Save a Playwright trace of every tool call to the output directory.
+   */
+  saveTrace?: boolean;
+  /**
+   * Never submit assignments, submit_assignment always does a dry run and
+   * the other tools refuse to submit forms.
+   */
+  readOnly?: boolean;
 };
 
-type PageOrFrameLocator = playwright.Page | playwright.FrameLocator;
+
+type ReloginOptions = {
+  retry?: boolean;
+};
 
 type RunOptions = {
   captureSnapshot?: boolean;
@@ -39,13 +90,161 @@ type RunOptions = {
 
 export class Context {
   readonly options: ContextOptions;
+  readonly site: Site;
+  readonly selectors: Selectors;
+  session: SessionStore | undefined;
+  private _profile: Profile;
   private _browser: playwright.Browser | undefined;
   private _browserContext: playwright.BrowserContext | undefined;
   private _tabs: Tab[] = [];
   private _currentTab: Tab | undefined;
+  private _traceChunkOpen = false;
+  private _traceChunkTitle: string | undefined;
+  private _tracing = false;
+  private _savingTraces: boolean;
+  private _savedTraces: string[] = [];
 
   constructor(options: ContextOptions) {
     this.options = options;
+    this.site = new Site(options.site);
+    this.selectors = resolveSelectors(options.selectors);
+    this._profile = this._findProfile(options.profile ?? 'default');
+    this.session = this._profile.storageState ? new SessionStore(this._profile.storageState) : undefined;
+    this._savingTraces = !!options.saveTrace;
+  }
+
+  profiles(): Profile[] {
+    const profiles = this.options.profiles ?? [];
+    if (profiles.some(profile => profile.name === 'default'))
+      return profiles;
+    // Top-level options make up the implicit default profile.
+    const defaultProfile: Profile = {
+      name: 'default',
+      userDataDir: this.options.userDataDir,
+      storageState: this.options.storageState,
+      credentials: this.options.credentials,
+    };
+    return [defaultProfile, ...profiles];
+  }
+
+  /**
+   * Directory downloaded attachments are saved into.
+   */
+  workspaceDir(): string {
+    return path.resolve(this.options.workspaceDir ?? path.join(os.homedir(), 'INIAD-MOOCs'));
+  }
+
+  /**
+   * Directory failure bundles and traces are saved into.
+   */
+  outputDir(): string {
+    return path.resolve(this.options.outputDir ?? path.join(os.tmpdir(), 'iniad-moocs-mcp-output'));
+  }
+
+  /**
+   * Directory the traces of tool calls are saved into.
+   */
+  tracesDir(): string {
+    return path.join(this.outputDir(), 'traces');
+  }
+
+  /**
+   * Whether the trace of every tool call is saved to the traces directory.
+   */
+  isSavingTraces(): boolean {
+    return this._savingTraces;
+  }
+
+  /**
+   * Saves the trace of every following tool call, as --save-trace does.
+   */
+  startSavingTraces() {
+    this._savingTraces = true;
+    this._savedTraces = [];
+  }
+
+  /**
+   * Stops saving the traces of tool calls and returns the traces saved since
+   * saving started. Tracing goes on when failures are traced.
+   */
+  async stopSavingTraces(): Promise<string[]> {
+    const saved = this._savedTraces;
+    this._savingTraces = false;
+    this._savedTraces = [];
+    if (!this.options.traceFailures && this._tracing && this._browserContext) {
+      this._tracing = false;
+      this._traceChunkOpen = false;
+      await this._browserContext.tracing.stop();
+    }
+    return saved;
+  }
+
+  /**
+   * Starts a trace chunk for a tool call when tool calls are traced. A
+   * browser launched during the call starts tracing right away, with the
+   * chunk open and titled after the call.
+   */
+  async startTraceChunk(title: string) {
+    if (!this._shouldTrace() || this._traceChunkOpen)
+      return;
+    this._traceChunkTitle = title;
+    if (!this._browserContext)
+      return;
+    if (this._tracing) {
+      await this._browserContext.tracing.startChunk({ title });
+    } else {
+      await this._browserContext.tracing.start({ screenshots: true, snapshots: true, title });
+      this._tracing = true;
+    }
+    this._traceChunkOpen = true;
+  }
+
+  /**
+   * Ends the trace chunk of the tool call, saving it to the path if given.
+   * Returns whether a trace was saved.
+   */
+  async stopTraceChunk(path?: string): Promise<boolean> {
+    this._traceChunkTitle = undefined;
+    if (!this._traceChunkOpen || !this._browserContext)
+      return false;
+    this._traceChunkOpen = false;
+    await this._browserContext.tracing.stopChunk(path ? { path } : undefined);
+    if (path && this._savingTraces)
+      this._savedTraces.push(path);
+    return !!path;
+  }
+
+  private _shouldTrace(): boolean {
+    return !!this.options.traceFailures || this._savingTraces;
+  }
+
+  currentProfile(): Profile {
+    return this._profile;
+  }
+
+  async selectProfile(name: string) {
+    const profile = this._findProfile(name);
+    // A CDP browser keeps its single context across profiles, so drop the previous account's cookies.
+    if (this.options.cdpEndpoint)
+      await this._browserContext?.clearCookies();
+    await this.close();
+    await this._browser?.close();
+    this._browser = undefined;
+    this._browserContext = undefined;
+    this._tracing = false;
+    this._traceChunkOpen = false;
+    this._tabs = [];
+    this._currentTab = undefined;
+    this._profile = profile;
+    this.session = profile.storageState ? new SessionStore(profile.storageState) : undefined;
+  }
+
+  private _findProfile(name: string): Profile {
+    const profiles = this.profiles();
+    const profile = profiles.find(profile => profile.name === name);
+    if (!profile)
+      throw new Error(`Profile "${name}" does not exist. Available profiles: ${profiles.map(profile => profile.name).join(', ')}`);
+    return profile;
   }
 
   tabs(): Tab[] {
@@ -97,6 +296,73 @@ export class Context {
     return await this.listTabs();
   }
 
+  async login(tab: Tab): Promise<LoginResult> {
+    const provider = createCredentialProvider(this._profile.credentials);
+    if (provider.interactive && this.options.launchOptions?.headless)
+      throw new Error('Interactive login needs a visible browser window, start the server without --headless.');
+    const credentials = provider.interactive ? undefined : await provider.credentials();
+    // The trace would record the password typed into the form in plaintext.
+    return await this._withoutTracing(() => loginToMoocs(tab.page, this.site, this.selectors, credentials));
+  }
+
+  /**
+   * Runs the callback with tracing stopped, discarding what the tool call
+   * recorded so far, then starts tracing again with a chunk of the same
+   * title. Closing the chunk alone would keep the network log of requests
+   * that were still pending, like the form post carrying the password.
+   */
+  private async _withoutTracing<T>(callback: () => Promise<T>): Promise<T> {
+    const browserContext = this._browserContext;
+    if (!this._tracing || !browserContext)
+      return await callback();
+    const chunkOpen = this._traceChunkOpen;
+    this._tracing = false;
+    this._traceChunkOpen = false;
+    await browserContext.tracing.stop();
+    try {
+      return await callback();
+    } finally {
+      if (this._browserContext === browserContext) {
+        await browserContext.tracing.start({ screenshots: true, snapshots: true, title: this._traceChunkTitle });
+        this._tracing = true;
+        // Tracing starts with a chunk open, close it again when no tool call is being traced.
+        if (!chunkOpen)
+          await browserContext.tracing.stopChunk();
+        this._traceChunkOpen = chunkOpen;
+      }
+    }
+  }
+
+  /**
+   * Runs a MOOCs operation in the current tab. If the operation ends up on the
+   * login page because the session has expired, logs in again with the
+   * configured credentials, returns to the page the operation started from and
+   * runs it once more.
+   */
+  async runWithRelogin<T>(callback: (tab: Tab) => Promise<T>, options?: ReloginOptions): Promise<T> {
+    const tab = await this.ensureTab();
+    const startUrl = tab.page.url();
+    const result = await callback(tab);
+    if (!await isLoginPage(tab.page, this.site, this.selectors))
+      return result;
+
+    try {
+      await this.login(tab);
+    } catch (error) {
+      throw new Error(`The MOOCs session has expired and logging in again failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    await this.saveSession();
+    if (this.site.isMoocsUrl(startUrl))
+      await tab.navigate(startUrl);
+    if (options?.retry === false)
+      throw new Error(`The MOOCs session had expired, logged in again and reopened ${tab.page.url()}. Capture a new snapshot and try again.`);
+
+    const retried = await callback(tab);
+    if (await isLoginPage(tab.page, this.site, this.selectors))
+      throw new Error('Still on the login page after logging in again.');
+    return retried;
+  }
+
   private _onPageCreated(page: playwright.Page) {
     const tab = new Tab(this, page, tab => this._onPageClosed(tab));
     this._tabs.push(tab);
@@ -117,6 +383,8 @@ export class Context {
       void this._browserContext.close().then(() => browser?.close()).catch(() => {});
       this._browser = undefined;
       this._browserContext = undefined;
+      this._tracing = false;
+      this._traceChunkOpen = false;
     }
   }
 
@@ -126,11 +394,22 @@ export class Context {
     await this._browserContext.close();
   }
 
+  async saveSession() {
+    if (!this.session || !this._browserContext)
+      return;
+    await this.session.save(this._browserContext);
+  }
+
   private async _ensureBrowserContext() {
     if (!this._browserContext) {
       const context = await this._createBrowserContext();
       this._browser = context.browser;
       this._browserContext = context.browserContext;
+      if (this._traceChunkTitle) {
+        await this._browserContext.tracing.start({ screenshots: true, snapshots: true, title: this._traceChunkTitle });
+        this._tracing = true;
+        this._traceChunkOpen = true;
+      }
       for (const page of this._browserContext.pages())
         this._onPageCreated(page);
       this._browserContext.on('page', page => this._onPageCreated(page));
@@ -146,27 +425,29 @@ export class Context {
       if (this.options.launchOptions)
         url.searchParams.set('launch-options', JSON.stringify(this.options.launchOptions));
       const browser = await playwright[this.options.browserName ?? 'chromium'].connect(String(url));
-      const browserContext = await browser.newContext();
+      const browserContext = await browser.newContext({ storageState: await this.session?.load() });
       return { browser, browserContext };
     }
 
     if (this.options.cdpEndpoint) {
       const browser = await playwright.chromium.connectOverCDP(this.options.cdpEndpoint);
       const browserContext = browser.contexts()[0];
+      await this.session?.restore(browserContext);
       return { browser, browserContext };
     }
 
     const browserContext = await this._launchPersistentContext();
+    await this.session?.restore(browserContext);
     return { browserContext };
   }
 
   private async _launchPersistentContext(): Promise<playwright.BrowserContext> {
     try {
       const browserType = this.options.browserName ? playwright[this.options.browserName] : playwright.chromium;
-      return await browserType.launchPersistentContext(this.options.userDataDir, this.options.launchOptions);
+      return await browserType.launchPersistentContext(this._profile.userDataDir, this.options.launchOptions);
     } catch (error: any) {
       if (error.message.includes('Executable doesn\'t exist'))
-        throw new Error(`Browser specified in your config is not installed. Either install it (likely) or change the config.`);
+        throw new Error(`Browser specified in your config is not installed. Either install it with the browser_install tool (likely) or change the config.`);
       throw error;
     }
   }
@@ -253,6 +534,11 @@ export class Tab {
     return this._snapshot;
   }
 
+  async captureSnapshot(): Promise<PageSnapshot> {
+    this._snapshot = await PageSnapshot.create(this.page);
+    return this._snapshot;
+  }
+
   async console(): Promise<playwright.ConsoleMessage[]> {
     return this._console;
   }
@@ -296,6 +582,22 @@ class PageSnapshot {
     return results.join('\n');
   }
 
+  /**
+   * Role and ref of every element in the snapshot, in document order.
+   */
+  elements(): { role: string, ref: string }[] {
+    return [...this._text.matchAll(/^\s*- ['"]?([a-z]+)\b.*\[ref=([^\]]+)\]/gm)].map(match => ({ role: match[1], ref: match[2] }));
+  }
+
+  /**
+   * Role and name of the element with the ref as shown in the snapshot, e.g.
+   * 'button "回答を保存"', or undefined when the snapshot has no such element.
+   */
+  describe(ref: string): string | undefined {
+    const line = this._text.split('\n').find(line => line.includes(`[ref=${ref}]`));
+    return line?.replace(/^\s*- ['"]?/, '').replace(/\s*\[ref=.*$/, '');
+  }
+
   private async _build(page: playwright.Page) {
     const yamlDocument = await this._snapshotFrame(page);
     const lines = [];
@@ -313,7 +615,7 @@ class PageSnapshot {
     this._text = lines.join('\n');
   }
 
-  private async _snapshotFrame(frame: playwright.Page | playwright.FrameLocator) {
+  private async _snapshotFrame(frame: PageOrFrameLocator, depth = 0): Promise<yaml.Document> {
     const frameIndex = this._frameLocators.push(frame) - 1;
     const snapshotString = await frame.locator('body').ariaSnapshot({ ref: true });
     const snapshot = yaml.parseDocument(snapshotString);
@@ -334,12 +636,8 @@ class PageSnapshot {
           if (value.startsWith('iframe ')) {
             const ref = value.match(/\[ref=(.*)\]/)?.[1];
             if (ref) {
-              try {
-                const childSnapshot = await this._snapshotFrame(frame.frameLocator(`aria-ref=${ref}`));
-                return snapshot.createPair(node.value, childSnapshot);
-              } catch (error) {
-                return snapshot.createPair(node.value, '<could not take iframe snapshot>');
-              }
+              const childSnapshot = await readChildFrame(frame.locator(`aria-ref=${ref}`), depth, (child, childDepth) => this._snapshotFrame(child, childDepth));
+              return snapshot.createPair(node.value, childSnapshot ?? '<could not take iframe snapshot>');
             }
           }
         }
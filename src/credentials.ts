@@ -0,0 +1,137 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { exec } from 'child_process';
+import fs from 'fs';
+import { promisify } from 'util';
+
+import yaml from 'yaml';
+
+import type { CredentialsSource } from './config';
+
+export type Credentials = {
+  username: string;
+  password: string;
+};
+
+export type CredentialProvider = {
+  /**
+   * Interactive providers supply no credentials, the user logs in in the headed browser instead.
+   */
+  readonly interactive: boolean;
+  credentials(): Promise<Credentials>;
+};
+
+class EnvCredentialProvider implements CredentialProvider {
+  readonly interactive = false;
+  private _usernameEnv: string;
+  private _passwordEnv: string;
+
+  constructor(usernameEnv = 'INIAD_USERNAME', passwordEnv = 'INIAD_PASSWORD') {
+    this._usernameEnv = usernameEnv;
+    this._passwordEnv = passwordEnv;
+  }
+
+  async credentials(): Promise<Credentials> {
+    const username = process.env[this._usernameEnv];
+    const password = process.env[this._passwordEnv];
+    if (!username || !password)
+      throw new Error(`${this._usernameEnv} and ${this._passwordEnv} environment variables must be set.`);
+    return { username, password };
+  }
+}
+
+class SecretsFileCredentialProvider implements CredentialProvider {
+  readonly interactive = false;
+  private _file: string;
+
+  constructor(file: string) {
+    this._file = file;
+  }
+
+  async credentials(): Promise<Credentials> {
+    const stat = await fs.promises.stat(this._file);
+    if (process.platform !== 'win32' && (stat.mode & 0o077))
+      throw new Error(`Secrets file ${this._file} is accessible by other users, restrict it with "chmod 600 ${this._file}".`);
+    const secrets = yaml.parse(await fs.promises.readFile(this._file, 'utf8'));
+    if (typeof secrets?.username !== 'string' || typeof secrets?.password !== 'string')
+      throw new Error(`Secrets file ${this._file} must define "username" and "password".`);
+    return { username: secrets.username, password: secrets.password };
+  }
+}
+
+class CommandCredentialProvider implements CredentialProvider {
+  readonly interactive = false;
+  private _command: string;
+  private _username: string | undefined;
+  private _usernameEnv: string;
+
+  constructor(command: string, username: string | undefined, usernameEnv = 'INIAD_USERNAME') {
+    this._command = command;
+    this._username = username;
+    this._usernameEnv = usernameEnv;
+  }
+
+  async credentials(): Promise<Credentials> {
+    const username = this._username ?? process.env[this._usernameEnv];
+    if (!username)
+      throw new Error(`Set ${this._usernameEnv} or configure the username to use with the password command.`);
+    // Like `pass show`, the password is the first line of the output.
+    const { stdout } = await promisify(exec)(this._command, { timeout: 30000 });
+    const password = stdout.split(/\r?\n/)[0].trim();
+    if (!password)
+      throw new Error(`Password command "${this._command}" printed no password.`);
+    return { username, password };
+  }
+}
+
+class InteractiveCredentialProvider implements CredentialProvider {
+  readonly interactive = true;
+
+  async credentials(): Promise<Credentials> {
+    throw new Error('Interactive login does not use stored credentials.');
+  }
+}
+
+export function createCredentialProvider(source?: CredentialsSource): CredentialProvider {
+  switch (source?.type) {
+    case 'file':
+      return new SecretsFileCredentialProvider(source.path);
+    case 'command':
+      return new CommandCredentialProvider(source.command, source.username, source.usernameEnv);
+    case 'interactive':
+      return new InteractiveCredentialProvider();
+    case 'env':
+      return new EnvCredentialProvider(source.usernameEnv, source.passwordEnv);
+    default:
+      return new EnvCredentialProvider();
+  }
+}
+
+/**
+ * Parses the --credentials option: "env", "file:<path>", "command:<command>" or "interactive".
+ */
+export function parseCredentialsOption(value: string): CredentialsSource {
+  if (value === 'env')
+    return { type: 'env' };
+  if (value === 'interactive')
+    return { type: 'interactive' };
+  if (value.startsWith('file:'))
+    return { type: 'file', path: value.substring('file:'.length) };
+  if (value.startsWith('command:'))
+    return { type: 'command', command: value.substring('command:'.length) };
+  throw new Error(`Unknown credentials provider "${value}", expected env, file:<path>, command:<command> or interactive.`);
+}
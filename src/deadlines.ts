@@ -0,0 +1,168 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { scrapeCourses, scrapeLectureLinks, scrapeSlideLinks } from './scraping';
+import { createLogger } from './logger';
+
+import type { Context } from './context';
+import type { CourseLink, LectureLink, SubmissionStatus } from './scraping';
+
+const logger = createLogger('deadlines');
+
+export type Deadline = {
+  deadline: Date;
+  course: { id: string, title: string };
+  lecture: { id: string, title: string, url: string };
+  /**
+   * The page the deadline was found on.
+   */
+  page: { title: string, url: string };
+  /**
+   * 0-based position of the deadline among the deadlines on its page, in page
+   * order. Does not change when other deadlines are filtered out.
+   */
+  position: number;
+  status?: SubmissionStatus;
+  score?: string;
+};
+
+export type CollectDeadlinesOptions = {
+  /**
+   * IDs of the courses to check, all courses by default.
+   */
+  courses?: string[];
+  /**
+   * Only check lectures with this submission status.
+   */
+  status?: SubmissionStatus;
+};
+
+// MOOCs shows all dates in Japan Standard Time, which has no daylight saving time.
+const jstOffsetMs = 9 * 60 * 60 * 1000;
+
+// A label such as "提出期限：" or "Deadline:" followed by a date like "2025/05/10 (土) 23:59",
+// "2025-05-10 23:59" or "2025年5月10日 23時59分". Dates without a time are due at the end of the day.
+const deadlinePattern = /(?:提出期限|提出締切|締め?切り?|期限|deadline|due(?:\s+date)?)\s*[:：]?\s*(\d{4})\s*[-/年.]\s*(\d{1,2})\s*[-/月.]\s*(\d{1,2})\s*日?(?:\s*[(（][^)）]*[)）])?(?:\s*(\d{1,2})\s*[:時]\s*(\d{2})分?)?/gi;
+
+/**
+ * Finds the labelled deadlines in the text of a MOOCs page, in the order they appear.
+ */
+export function parseDeadlines(text: string): Date[] {
+  const deadlines: Date[] = [];
+  for (const match of text.matchAll(deadlinePattern)) {
+    const [, year, month, day, hour, minute] = match;
+    const time = Date.UTC(+year, +month - 1, +day, hour ? +hour : 23, minute ? +minute : 59) - jstOffsetMs;
+    if (!Number.isNaN(time) && !deadlines.some(deadline => deadline.getTime() === time))
+      deadlines.push(new Date(time));
+  }
+  return deadlines;
+}
+
+/**
+ * Formats a date as an ISO 8601 timestamp in Japan Standard Time, e.g.
+ * "2025-05-10T23:59:00+09:00".
+ */
+export function formatJst(date: Date): string {
+  return new Date(date.getTime() + jstOffsetMs).toISOString().replace(/\.\d{3}Z$/, '+09:00');
+}
+
+/**
+ * Keeps the deadlines from now until the given number of days ahead, or all
+ * upcoming ones without a limit. Past deadlines are dropped unless asked for.
+ */
+export function filterDeadlines(deadlines: Deadline[], options: { withinDays?: number, includePast?: boolean }, now = Date.now()): Deadline[] {
+  const to = options.withinDays === undefined ? Infinity : now + options.withinDays * 24 * 60 * 60 * 1000;
+  return deadlines.filter(deadline => {
+    const time = deadline.deadline.getTime();
+    return (options.includePast || time >= now) && time <= to;
+  });
+}
+
+// Besides its first page, only the pages of a lecture that look like problems are checked for deadlines.
+const problemPagePattern = /演習|課題|問題|練習|テスト|クイズ|レポート|提出|exercise|assignment|quiz|problem|report/i;
+
+/**
+ * Walks the courses and the lectures with problems in their sidebars and
+ * collects the deadlines shown on the lecture and problem pages, earliest
+ * first. Opens the pages in the current tab.
+ */
+export async function collectDeadlines(context: Context, options: CollectDeadlinesOptions = {}): Promise<Deadline[]> {
+  const courses = await context.runWithRelogin(async tab => {
+    await tab.navigate(context.site.coursesUrl());
+    return await scrapeCourses(tab.page, context.selectors, context.site.baseUrl);
+  });
+  const unknownCourses = (options.courses ?? []).filter(id => !courses.some(course => course.id === id));
+  if (unknownCourses.length)
+    throw new Error(`Unknown courses: ${unknownCourses.join(', ')}. Available courses: ${courses.map(course => course.id).join(', ')}`);
+
+  const deadlines: Deadline[] = [];
+  for (const course of courses) {
+    if (options.courses && !options.courses.includes(course.id))
+      continue;
+    logger.info(`Collecting deadlines of ${course.title}...`);
+    const lectures = await context.runWithRelogin(async tab => {
+      await tab.navigate(course.url);
+      return await scrapeLectureLinks(tab.page, context.selectors, context.site);
+    });
+    // Lectures without a submission status have no problems to submit.
+    for (const lecture of lectures.filter(lecture => lecture.status && (!options.status || lecture.status === options.status)))
+      deadlines.push(...await collectLectureDeadlines(context, course, lecture));
+  }
+  return deadlines.sort((a, b) => a.deadline.getTime() - b.deadline.getTime());
+}
+
+async function collectLectureDeadlines(context: Context, course: CourseLink, lecture: LectureLink): Promise<Deadline[]> {
+  const firstPage = await readPage(context, lecture.url);
+  const pages = [firstPage];
+  for (const slide of firstPage.slides) {
+    if (slide.url !== firstPage.url && slide.url !== lecture.url && problemPagePattern.test(slide.title))
+      pages.push(await readPage(context, slide.url));
+  }
+
+  const deadlines: Deadline[] = [];
+  const seen = new Set<number>();
+  for (const page of pages) {
+    for (const [position, deadline] of page.deadlines.entries()) {
+      if (seen.has(deadline.getTime()))
+        continue;
+      seen.add(deadline.getTime());
+      deadlines.push({
+        deadline,
+        course: { id: course.id, title: course.title },
+        lecture: { id: lecture.id, title: lecture.title, url: lecture.url },
+        page: { title: page.title, url: page.url },
+        position,
+        status: lecture.status,
+        score: lecture.score,
+      });
+    }
+  }
+  return deadlines;
+}
+
+async function readPage(context: Context, url: string) {
+  return await context.runWithRelogin(async tab => {
+    await tab.navigate(url);
+    const content = tab.page.locator(context.selectors.lecture.content).first();
+    const text = await content.count() ? await content.innerText() : await tab.page.locator('body').innerText();
+    return {
+      title: await tab.page.title(),
+      url: tab.page.url(),
+      deadlines: parseDeadlines(text),
+      slides: await scrapeSlideLinks(tab.page, context.selectors),
+    };
+  });
+}
@@ -0,0 +1,257 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+import { attachmentPattern } from './attachments';
+import { readPageAsMarkdown } from './markdown';
+import { scrapeCourses, scrapeLectureSections, scrapeSlideLinks } from './scraping';
+import { sanitizeForFilePath } from './tools/utils';
+import { createLogger } from './logger';
+
+import type { Context } from './context';
+import type { CourseLink, LectureSection } from './scraping';
+
+const logger = createLogger('exportCourse');
+
+export type ExportCourseOptions = {
+  /**
+   * ID of the course as returned by listCourses, e.g. "CS101", or its path
+   * below the course list, e.g. "2025/CS101".
+   */
+  course: string;
+  /**
+   * Directory to write the export to. An earlier export of the same course in
+   * the directory is resumed.
+   */
+  outputDir: string;
+  /**
+   * Export every page again instead of resuming.
+   */
+  force?: boolean;
+};
+
+export type CourseExport = {
+  outputDir: string;
+  index: string;
+  lectures: number;
+  pages: { exported: number, skipped: number };
+  assets: { downloaded: number, failed: string[] };
+};
+
+type ExportedPage = {
+  index: number;
+  title: string;
+  url: string;
+  /**
+   * Path of the Markdown file, relative to the output directory.
+   */
+  file: string;
+};
+
+type Manifest = {
+  version: 1;
+  course: CourseLink;
+  lectures: Record<string, { pages: ExportedPage[], complete: boolean }>;
+  /**
+   * Downloaded files by URL, relative to the output directory.
+   */
+  assets: Record<string, string>;
+};
+
+const manifestFileName = 'manifest.json';
+const indexFileName = 'index.md';
+const assetsDirName = 'assets';
+
+const markdownLinkPattern = /(!?)\[((?:\\.|[^\]\\])*)\]\((\S+?)\)/g;
+
+/**
+ * Writes a course to a local directory: one Markdown file per page, grouped
+ * in a directory per section and lecture, the images and attachments linked
+ * from the pages, an index.md linking everything and a manifest.json that
+ * records the progress. Pages and lectures recorded in the manifest are
+ * skipped, so an interrupted export continues where it stopped.
+ */
+export async function exportCourse(context: Context, options: ExportCourseOptions): Promise<CourseExport> {
+  const outputDir = path.resolve(options.outputDir);
+  const courses = await context.runWithRelogin(async tab => {
+    await tab.navigate(context.site.coursesUrl());
+    return await scrapeCourses(tab.page, context.selectors, context.site.baseUrl);
+  });
+  const course = courses.find(course => course.id === options.course || context.site.pathId(course.url) === options.course);
+  if (!course)
+    throw new Error(`Unknown course: ${options.course}. Available courses: ${courses.map(course => course.id).join(', ')}`);
+
+  await fs.promises.mkdir(outputDir, { recursive: true });
+  const manifestPath = path.join(outputDir, manifestFileName);
+  const manifest = options.force ? newManifest(course) : await readManifest(manifestPath, course);
+  const result: CourseExport = {
+    outputDir,
+    index: path.join(outputDir, indexFileName),
+    lectures: 0,
+    pages: { exported: 0, skipped: 0 },
+    assets: { downloaded: 0, failed: [] },
+  };
+
+  const sections = await context.runWithRelogin(async tab => {
+    await tab.navigate(course.url);
+    return await scrapeLectureSections(tab.page, context.selectors, context.site);
+  });
+
+  for (const section of sections) {
+    for (const lecture of section.lectures) {
+      result.lectures++;
+      const entry = manifest.lectures[lecture.id];
+      if (entry?.complete && entry.pages.every(page => fs.existsSync(path.join(outputDir, page.file)))) {
+        result.pages.skipped += entry.pages.length;
+        continue;
+      }
+
+      logger.info(`Exporting ${lecture.title}...`);
+      const slides = await context.runWithRelogin(async tab => {
+        await tab.navigate(lecture.url);
+        return await scrapeSlideLinks(tab.page, context.selectors);
+      });
+      // A lecture with a single page has no page navigation.
+      const pages = slides.length ? slides.map(slide => ({ index: +slide.slideNumber, title: slide.title, url: slide.url })) : [{ index: 1, title: lecture.title, url: lecture.url }];
+
+      const lectureDir = path.join(numbered(section.index, section.title || 'lectures'), numbered(lecture.index, lecture.title));
+      const exported: ExportedPage[] = [];
+      manifest.lectures[lecture.id] = { pages: exported, complete: false };
+      for (const page of pages) {
+        const previous = entry?.pages.find(previous => previous.url === page.url);
+        if (previous && fs.existsSync(path.join(outputDir, previous.file))) {
+          exported.push(previous);
+          result.pages.skipped++;
+          continue;
+        }
+
+        const file = path.join(lectureDir, `${numbered(page.index, page.title === String(page.index) ? 'page' : page.title)}.md`);
+        const markdown = await context.runWithRelogin(async tab => {
+          await tab.navigate(page.url);
+          return await readPageAsMarkdown(tab.page, context.selectors.lecture.content);
+        });
+        const localized = await downloadAssets(context, manifest, outputDir, file, markdown, result);
+        await writeFileAtomically(path.join(outputDir, file), `<!-- ${page.url} -->\n\n${localized}\n`);
+        exported.push({ ...page, file: toPosix(file) });
+        result.pages.exported++;
+        await writeFileAtomically(manifestPath, JSON.stringify(manifest, null, 2));
+      }
+      manifest.lectures[lecture.id].complete = true;
+      await writeFileAtomically(manifestPath, JSON.stringify(manifest, null, 2));
+    }
+  }
+
+  await writeFileAtomically(result.index, formatIndex(course, sections, manifest));
+  return result;
+}
+
+function newManifest(course: CourseLink): Manifest {
+  return { version: 1, course, lectures: {}, assets: {} };
+}
+
+async function readManifest(manifestPath: string, course: CourseLink): Promise<Manifest> {
+  let text: string;
+  try {
+    text = await fs.promises.readFile(manifestPath, 'utf-8');
+  } catch (error) {
+    return newManifest(course);
+  }
+  const manifest = JSON.parse(text) as Manifest;
+  if (manifest.course?.url !== course.url)
+    throw new Error(`${path.dirname(manifestPath)} holds an export of another course (${manifest.course?.url}). Choose another directory.`);
+  return { ...newManifest(course), ...manifest, course };
+}
+
+// Replaces the links to images and attachments with links to downloaded copies.
+async function downloadAssets(context: Context, manifest: Manifest, outputDir: string, file: string, markdown: string, result: CourseExport): Promise<string> {
+  const replacements = new Map<string, string>();
+  for (const [, bang, , url] of markdown.matchAll(markdownLinkPattern)) {
+    if (replacements.has(url) || !/^https?:/.test(url))
+      continue;
+    // Images are always downloaded, links only when they point to attachments.
+    const pathname = new URL(url).pathname;
+    if (!bang && !attachmentPattern.test(pathname))
+      continue;
+
+    let asset = manifest.assets[url];
+    if (!asset || !fs.existsSync(path.join(outputDir, asset))) {
+      try {
+        asset = await downloadAsset(context, outputDir, url);
+        manifest.assets[url] = asset;
+        result.assets.downloaded++;
+      } catch (error) {
+        logger.warning(`Could not download ${url}`, { error });
+        result.assets.failed.push(url);
+        continue;
+      }
+    }
+    replacements.set(url, toPosix(path.relative(path.dirname(file), asset)));
+  }
+  return markdown.replace(markdownLinkPattern, (match, bang, text, url) => replacements.has(url) ? `${bang}[${text}](<${replacements.get(url)}>)` : match);
+}
+
+async function downloadAsset(context: Context, outputDir: string, url: string): Promise<string> {
+  const response = await context.runWithRelogin(async tab => await tab.page.request.get(url, { timeout: 60000 }));
+  if (!response.ok())
+    throw new Error(`HTTP ${response.status()}`);
+  const pathname = new URL(url).pathname;
+  // Expired sessions redirect to the login page instead of failing.
+  if (/text\/html/.test(response.headers()['content-type'] ?? '') && !/\.html?$/i.test(pathname))
+    throw new Error(`Got a web page instead of the file, from ${response.url()}`);
+  const basename = decodeURIComponent(pathname.split('/').pop() || 'file');
+  const extension = path.extname(basename).toLowerCase();
+  const name = path.basename(basename, path.extname(basename));
+  const hash = crypto.createHash('sha256').update(url).digest('hex').slice(0, 12);
+  const asset = path.join(assetsDirName, `${hash}-${sanitizeForFilePath(name)}${/^\.[a-z0-9]+$/.test(extension) ? extension : ''}`);
+  await writeFileAtomically(path.join(outputDir, asset), await response.body());
+  return asset;
+}
+
+function formatIndex(course: CourseLink, sections: LectureSection[], manifest: Manifest): string {
+  const lines = [`# ${course.title}`, '', `<${course.url}>`];
+  for (const section of sections) {
+    lines.push('', `## ${section.title || 'その他'}`, '');
+    for (const lecture of section.lectures) {
+      const status = lecture.status ? ` (${lecture.status}${lecture.score ? ` ${lecture.score}` : ''})` : '';
+      lines.push(`- ${escapeLinkText(lecture.title)}${status}`);
+      for (const page of manifest.lectures[lecture.id]?.pages ?? [])
+        lines.push(`  ${page.index}. [${escapeLinkText(page.title)}](<${page.file}>)`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+function numbered(index: number, title: string): string {
+  return `${String(index).padStart(2, '0')}-${sanitizeForFilePath(title)}`;
+}
+
+function escapeLinkText(text: string): string {
+  return text.replace(/[[\]\\]/g, match => '\\' + match);
+}
+
+function toPosix(file: string): string {
+  return file.split(path.sep).join('/');
+}
+
+async function writeFileAtomically(file: string, data: string | Buffer) {
+  await fs.promises.mkdir(path.dirname(file), { recursive: true });
+  const temporary = `${file}.${process.pid}.tmp`;
+  await fs.promises.writeFile(temporary, data);
+  await fs.promises.rename(temporary, file);
+}
@@ -0,0 +1,117 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import { createLogger } from './logger';
+import { saveTrace } from './traces';
+import { sanitizeForFilePath } from './tools/utils';
+
+import type { Context, Tab } from './context';
+import type { ToolCall } from './traces';
+import type { ToolResult } from './tools/tool';
+
+const logger = createLogger('failures');
+
+const failuresDirName = 'failures';
+const defaultKeepFailures = 20;
+
+/**
+ * Saves what the browser showed when a tool call failed into a new directory
+ * below the output directory: failure.json with the call, the error and the
+ * page, screenshot.png, the last aria snapshot in snapshot.yml, the console
+ * messages in console.txt and, when tool calls are traced, trace.zip.
+ *
+ * Returns the error result with the location of the bundle and the
+ * screenshot added. Only the most recent bundles are kept.
+ */
+export async function reportFailure(context: Context, call: ToolCall, result: ToolResult): Promise<ToolResult> {
+  try {
+    const failuresDir = path.join(context.outputDir(), failuresDirName);
+    await fs.promises.mkdir(failuresDir, { recursive: true, mode: 0o700 });
+    const time = new Date();
+    const directory = await fs.promises.mkdtemp(path.join(failuresDir, `${time.toISOString().replace(/[:.]/g, '-')}-${sanitizeForFilePath(call.tool)}-`));
+    const message = result.content.filter(content => content.type === 'text').map(content => content.text).join('\n');
+
+    const tab = context.tabs().length ? context.currentTab() : undefined;
+    const page = tab?.page;
+    const dialog = tab?.pendingDialog;
+    const failure = {
+      time: time.toISOString(),
+      tool: call.tool,
+      arguments: call.arguments,
+      message,
+      url: page?.url(),
+      title: page ? await page.title().catch(() => undefined) : undefined,
+      dialog: dialog ? { type: dialog.type(), message: dialog.message() } : undefined,
+    };
+    await fs.promises.writeFile(path.join(directory, 'failure.json'), JSON.stringify(failure, null, 2));
+
+    let screenshot: Buffer | undefined;
+    // An open dialog blocks the page, taking a screenshot would hang until it is handled.
+    if (tab && page && !dialog) {
+      screenshot = await page.screenshot({ path: path.join(directory, 'screenshot.png'), timeout: 5000 }).catch(error => {
+        logger.warning('Could not take a screenshot of the failure', { error });
+        return undefined;
+      });
+    }
+    if (tab) {
+      // A new aria snapshot would invalidate the refs of the last one, which the client still uses,
+      // so save the snapshot the client was given.
+      const snapshot = tabSnapshot(tab);
+      if (snapshot)
+        await fs.promises.writeFile(path.join(directory, 'snapshot.yml'), snapshot);
+      const messages = await tab.console();
+      await fs.promises.writeFile(path.join(directory, 'console.txt'), messages.map(message => `[${message.type().toUpperCase()}] ${message.text()}\n`).join(''));
+    }
+    const trace = await saveTrace(context, call);
+    if (trace)
+      await fs.promises.copyFile(trace, path.join(directory, 'trace.zip'));
+    else
+      await context.stopTraceChunk(path.join(directory, 'trace.zip')).catch(error => logger.warning('Could not save the trace of the failure', { error }));
+
+    logger.info(`Saved the failure of ${call.tool} to ${directory}`);
+    await pruneFailures(failuresDir, context.options.keepFailures ?? defaultKeepFailures);
+    return {
+      ...result,
+      content: [
+        ...result.content,
+        { type: 'text', text: `Failure details saved to ${directory}` },
+        ...screenshot ? [{ type: 'image' as const, data: screenshot.toString('base64'), mimeType: 'image/png' }] : [],
+      ],
+    };
+  } catch (error) {
+    logger.error(`Could not save the failure of ${call.tool}`, { error });
+    return result;
+  }
+}
+
+function tabSnapshot(tab: Tab): string | undefined {
+  try {
+    return tab.lastSnapshot().text();
+  } catch (error) {
+    return undefined;
+  }
+}
+
+// Bundle names start with the time of the failure, so they sort oldest first.
+async function pruneFailures(failuresDir: string, keep: number) {
+  const entries = await fs.promises.readdir(failuresDir, { withFileTypes: true });
+  const bundles = entries.filter(entry => entry.isDirectory()).map(entry => entry.name).sort();
+  for (const name of bundles.slice(0, Math.max(0, bundles.length - keep)))
+    await fs.promises.rm(path.join(failuresDir, name), { recursive: true, force: true });
+}
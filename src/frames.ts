@@ -0,0 +1,41 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import type * as playwright from 'playwright';
+
+export type PageOrFrameLocator = playwright.Page | playwright.FrameLocator;
+
+// Embedded slides may embed further frames, but not endlessly.
+const maxFrameDepth = 3;
+
+/**
+ * Reads the frame of an iframe element with the callback, one level deeper
+ * than the frame holding the element. Both the page snapshot and the slide
+ * reader go through here, so that they descend into the same frames.
+ *
+ * Returns undefined when the frame is nested too deep or cannot be read, e.g.
+ * because it has not loaded or was removed meanwhile.
+ */
+export async function readChildFrame<T>(iframe: playwright.Locator, depth: number, read: (frame: playwright.FrameLocator, depth: number) => Promise<T>): Promise<T | undefined> {
+  if (depth >= maxFrameDepth)
+    return undefined;
+  try {
+    return await read(iframe.contentFrame(), depth + 1);
+  } catch (error) {
+    return undefined;
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import crypto from 'crypto';
+
+import type { Deadline } from './deadlines';
+
+const uidDomain = 'iniad-moocs-mcp';
+
+/**
+ * Formats the deadlines as an RFC 5545 calendar with one event per deadline.
+ *
+ * The UID of an event only depends on the lecture, the page and the position
+ * of the deadline among all deadlines on that page, so importing a new export
+ * into a calendar updates the events of an earlier one, even when a deadline
+ * was moved or another one was filtered out, instead of adding them again.
+ */
+export function formatDeadlinesAsIcal(deadlines: Deadline[], now = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//${uidDomain}//INIAD MOOCs deadlines//JA`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:INIAD MOOCs',
+  ];
+  for (const deadline of deadlines) {
+    const key = `${deadline.lecture.url}\n${deadline.page.url}`;
+
+    const description = [
+      `コース: ${deadline.course.title}`,
+      `講義: ${deadline.lecture.title}`,
+      `ページ: ${deadline.page.title}`,
+      ...deadline.status ? [`提出状況: ${deadline.status}${deadline.score ? ` (${deadline.score})` : ''}`] : [],
+      deadline.page.url,
+    ].join('\n');
+    lines.push(
+        'BEGIN:VEVENT',
+        `UID:${eventUid(key, deadline.position)}`,
+        `DTSTAMP:${formatUtc(now)}`,
+        `DTSTART:${formatUtc(deadline.deadline)}`,
+        `SUMMARY:${escapeText(`[${deadline.course.title}] ${deadline.lecture.title}`)}`,
+        `DESCRIPTION:${escapeText(description)}`,
+        `URL:${deadline.lecture.url}`,
+        'TRANSP:TRANSPARENT',
+        'END:VEVENT',
+    );
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+function eventUid(key: string, position: number): string {
+  const hash = crypto.createHash('sha256').update(`${key}\n${position}`).digest('hex').slice(0, 32);
+  return `${hash}@${uidDomain}`;
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}Z$/, 'Z');
+}
+
+function escapeText(text: string): string {
+  return text.replace(/[\\;,]/g, match => '\\' + match).replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets are folded into continuation lines starting with a space,
+// without splitting a multibyte character.
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let part = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    const limit = parts.length ? 74 : 75;
+    if (octets + size > limit) {
+      parts.push(part);
+      part = '';
+      octets = 0;
+    }
+    part += char;
+    octets += size;
+  }
+  parts.push(part);
+  return parts.join('\r\n ');
+}
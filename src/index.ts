@@ -16,13 +16,26 @@
 
 import { createServerWithTools } from './server';
 import common from './tools/common';
+import files from './tools/files';
+import install from './tools/install';
+import keyboard from './tools/keyboard';
 import navigate from './tools/navigate';
+import pdf from './tools/pdf';
+import screen, { attachScreenshot } from './tools/screen';
 import snapshot from './tools/snapshot';
 import tabs from './tools/tabs';
+import tracing from './tools/tracing';
 import login from './tools/login';
+import session from './tools/session';
+import profiles from './tools/profiles';
 import listLectures from './tools/listLectures';
 import listSlides from './tools/listSlides';
+import readSlides from './tools/readSlides';
 import listCourses from './tools/listCourses';
+import assignment from './tools/assignment';
+import attachments from './tools/attachments';
+import deadlines from './tools/deadlines';
+import exportCourse from './tools/exportCourse';
 import submitAssignment from './tools/submitAssignment';
 import handleDialog from './tools/handleDialog';
 import { console as consoleResource } from './resources/console';
@@ -30,31 +43,70 @@ import type { Tool, ToolCapability } from './tools/tool';
 import type { Resource } from './resources/resource';
 import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import type { LaunchOptions } from 'playwright';
+import type { Profile } from './context';
+import type { CredentialsSource } from './config';
+import type { SelectorOverrides } from './selectors';
+import type { SiteConfig } from './site';
 
 const snapshotTools: Tool[] = [
   ...common,
+  ...install,
   ...navigate(true),
   ...snapshot,
+  ...keyboard(true),
+  ...files(true),
   ...tabs(true),
+  ...pdf,
+  ...tracing,
   ...login,
+  ...session,
+  ...profiles,
   ...listLectures,
   ...listSlides,
+  ...readSlides,
+  ...attachments,
   ...listCourses,
+  ...deadlines,
+  ...exportCourse,
+  ...assignment,
   ...submitAssignment,
   ...handleDialog,
 ];
 
+// Tools whose result page is worth seeing, slides in particular are often made of images.
+const screenshotResultTools = new Set([
+  'browser_navigate',
+  'browser_navigate_back',
+  'browser_navigate_forward',
+  'readSlide',
+  'getAssignmentDetails',
+  'submit_assignment',
+]);
+
 const screenshotTools: Tool[] = [
   ...common,
+  ...install,
   ...navigate(false),
+  ...screen,
+  ...keyboard(false),
+  ...files(false),
   ...tabs(false),
+  ...pdf,
+  ...tracing,
   ...login,
+  ...session,
+  ...profiles,
   ...listLectures,
   ...listSlides,
+  ...readSlides,
+  ...attachments,
   ...listCourses,
+  ...deadlines,
+  ...exportCourse,
+  ...assignment,
   ...submitAssignment,
   ...handleDialog,
-];
+].map(tool => screenshotResultTools.has(tool.schema.name) ? attachScreenshot(tool) : tool);
 
 const resources: Resource[] = [
   consoleResource,
@@ -65,6 +117,18 @@ type Options = {
   userDataDir?: string;
   launchOptions?: LaunchOptions;
   cdpEndpoint?: string;
+  storageState?: string;
+  credentials?: CredentialsSource;
+  profiles?: Profile[];
+  profile?: string;
+  site?: Partial<SiteConfig>;
+  selectors?: SelectorOverrides;
+  workspaceDir?: string;
+  outputDir?: string;
+  keepFailures?: number;
+  traceFailures?: boolean;
+  saveTrace?: boolean;
+  readOnly?: boolean;
   vision?: boolean;
   capabilities?: ToolCapability[];
 };
@@ -83,5 +147,17 @@ export function createServer(options?: Options): Server {
     userDataDir: options?.userDataDir ?? '',
     launchOptions: options?.launchOptions,
     cdpEndpoint: options?.cdpEndpoint,
+    storageState: options?.storageState,
+    credentials: options?.credentials,
+    profiles: options?.profiles,
+    profile: options?.profile,
+    site: options?.site,
+    selectors: options?.selectors,
+    workspaceDir: options?.workspaceDir,
+    outputDir: options?.outputDir,
+    keepFailures: options?.keepFailures,
+    traceFailures: options?.traceFailures,
+    saveTrace: options?.saveTrace,
+    readOnly: options?.readOnly,
   });
 }
@@ -0,0 +1,105 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { fork } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+
+import type { ContextOptions } from './context';
+
+type Executable = {
+  executablePath(sdkLanguage: string): string | undefined;
+};
+
+type Registry = {
+  findExecutable(name: string): Executable | undefined;
+};
+
+/**
+ * Name of the browser or channel to pass to "playwright install" for the
+ * configured browser.
+ */
+export function browserInstallName(options: ContextOptions): string {
+  return options.launchOptions?.channel ?? options.browserName ?? 'chromium';
+}
+
+/**
+ * Checks that the browser the server launches is installed. Returns what is
+ * missing and how to fix it, or undefined when the browser is there or is not
+ * launched by the server at all (CDP and remote endpoints).
+ */
+export function findMissingBrowser(options: ContextOptions, installTool: boolean): string | undefined {
+  if (options.cdpEndpoint || options.remoteEndpoint)
+    return;
+
+  const executablePath = options.launchOptions?.executablePath;
+  if (executablePath) {
+    if (!fs.existsSync(executablePath))
+      return `The browser executable doesn't exist at ${executablePath}. Check the --executable-path option.`;
+    return;
+  }
+
+  const registry = loadRegistry();
+  if (!registry)
+    return;
+  const name = browserInstallName(options);
+  // Playwright runs headless Chromium with a separate, smaller build.
+  const executableName = name === 'chromium' && options.launchOptions?.headless ? 'chromium-headless-shell' : name;
+  const executable = registry.findExecutable(executableName);
+  if (!executable)
+    return;
+  const found = executable.executablePath('javascript');
+  if (found && fs.existsSync(found))
+    return;
+  const viaTool = installTool ? 'call the browser_install tool or ' : '';
+  return `Browser "${name}" is not installed${found ? ` (looked for ${found})` : ''}. To install it, ${viaTool}run "npx playwright install ${name}" in a terminal.`;
+}
+
+/**
+ * Runs the Playwright installer for the browser, passing each line it prints
+ * to the callback.
+ */
+export async function installBrowser(name: string, onOutput: (line: string) => void): Promise<void> {
+  const cli = path.join(path.dirname(require.resolve('playwright/package.json')), 'cli.js');
+  const child = fork(cli, ['install', name], { stdio: 'pipe' });
+  const output: string[] = [];
+  const onData = (data: Buffer) => {
+    for (const line of data.toString().split(/\r?\n|\r/)) {
+      if (!line.trim())
+        continue;
+      output.push(line);
+      onOutput(line);
+    }
+  };
+  child.stdout?.on('data', onData);
+  child.stderr?.on('data', onData);
+  const code = await new Promise<number | null>((resolve, reject) => {
+    child.on('error', reject);
+    child.on('close', resolve);
+  });
+  if (code !== 0)
+    throw new Error(`"playwright install ${name}" exited with code ${code}:\n${output.slice(-20).join('\n')}`);
+}
+
+// The registry is internal to Playwright, so the check is skipped when it cannot be loaded.
+function loadRegistry(): Registry | undefined {
+  try {
+    const modulePath = require.resolve('playwright-core/lib/server/registry/index', { paths: [path.dirname(require.resolve('playwright/package.json'))] });
+    return require(modulePath).registry;
+  } catch (error) {
+    return undefined;
+  }
+}
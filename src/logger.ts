@@ -0,0 +1,142 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import fs from 'fs';
+import path from 'path';
+
+export const logLevels = ['debug', 'info', 'warning', 'error'] as const;
+
+export type LogLevel = typeof logLevels[number];
+
+export type LogRecord = {
+  time: string;
+  level: LogLevel;
+  /**
+   * Name of the module the record comes from.
+   */
+  logger: string;
+  message: string;
+  data?: Record<string, unknown>;
+};
+
+/**
+ * Receives every record logged in its scope, whatever the configured level.
+ * Sinks filter by themselves, e.g. by the level the MCP client asked for.
+ */
+export type LogSink = (record: LogRecord) => void;
+
+export type LoggingOptions = {
+  level?: LogLevel;
+  /**
+   * File to append the records to instead of stderr.
+   */
+  file?: string;
+};
+
+let threshold: LogLevel = 'info';
+let logFile: string | undefined;
+const scopedSink = new AsyncLocalStorage<LogSink>();
+
+/**
+ * Sets where and from which level records are written. Records always go to
+ * stderr or a file as JSON lines, never to stdout, which carries the MCP
+ * messages in stdio mode.
+ */
+export function configureLogging(options: LoggingOptions) {
+  threshold = options.level ?? 'info';
+  logFile = options.file ? path.resolve(options.file) : undefined;
+  if (logFile)
+    fs.mkdirSync(path.dirname(logFile), { recursive: true });
+}
+
+export function logLevel(): LogLevel {
+  return threshold;
+}
+
+export function isLogLevel(value: string): value is LogLevel {
+  return (logLevels as readonly string[]).includes(value);
+}
+
+/**
+ * Runs the callback with the sink receiving the records logged by it and by
+ * the asynchronous work it starts. Each server handles its requests in the
+ * scope of its own sink, so that records never reach another server's client.
+ */
+export function runWithLogSink<T>(sink: LogSink, callback: () => T): T {
+  return scopedSink.run(sink, callback);
+}
+
+export class Logger {
+  readonly name: string;
+
+  constructor(name: string) {
+    this.name = name;
+  }
+
+  debug(message: string, data?: Record<string, unknown>) {
+    this._log('debug', message, data);
+  }
+
+  info(message: string, data?: Record<string, unknown>) {
+    this._log('info', message, data);
+  }
+
+  warning(message: string, data?: Record<string, unknown>) {
+    this._log('warning', message, data);
+  }
+
+  error(message: string, data?: Record<string, unknown>) {
+    this._log('error', message, data);
+  }
+
+  private _log(level: LogLevel, message: string, data?: Record<string, unknown>) {
+    const record: LogRecord = { time: new Date().toISOString(), level, logger: this.name, message };
+    if (data)
+      record.data = serializeErrors(data);
+    if (logLevels.indexOf(level) >= logLevels.indexOf(threshold))
+      write(record);
+    try {
+      scopedSink.getStore()?.(record);
+    } catch (error) {
+      // A broken sink must not break the operation that logs.
+    }
+  }
+}
+
+export function createLogger(name: string): Logger {
+  return new Logger(name);
+}
+
+function write(record: LogRecord) {
+  const line = JSON.stringify(record) + '\n';
+  try {
+    if (logFile)
+      fs.appendFileSync(logFile, line);
+    else
+      process.stderr.write(line);
+  } catch (error) {
+    // Nowhere left to report to.
+  }
+}
+
+// Errors have no enumerable properties, so JSON.stringify would drop their message.
+function serializeErrors(data: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data))
+    result[key] = value instanceof Error ? { name: value.name, message: value.message, stack: value.stack } : value;
+  return result;
+}
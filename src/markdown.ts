@@ -0,0 +1,166 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { readChildFrame } from './frames';
+
+import type * as playwright from 'playwright';
+
+const pdfPattern = /\.pdf(?:[?#]|$)/i;
+
+/**
+ * Converts the content of a page to Markdown, keeping headings, lists,
+ * tables, code blocks, links and the alt text of images. The text of
+ * embedded frames such as Google Slides is read in place of the frame, while
+ * embedded PDFs are linked.
+ *
+ * Reads the element matching the content selector, or the whole body when
+ * the page has no such element.
+ */
+export async function readPageAsMarkdown(page: playwright.Page, contentSelector: string): Promise<string> {
+  const content = page.locator(contentSelector).first();
+  return await readMarkdown(await content.count() ? content : page.locator('body'), 0);
+}
+
+async function readMarkdown(root: playwright.Locator, depth: number): Promise<string> {
+  const markdown = await root.evaluate(convertToMarkdown);
+  const iframes = root.locator('iframe');
+  const parts = markdown.split(/\u0000iframe:(\d+)\u0000/);
+  for (let i = 1; i < parts.length; i += 2)
+    parts[i] = await readFrame(iframes.nth(+parts[i]), depth);
+  return parts.join('').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+async function readFrame(iframe: playwright.Locator, depth: number): Promise<string> {
+  const { src, title } = await iframe.evaluate(element => ({ src: (element as HTMLIFrameElement).src, title: element.getAttribute('title') ?? '' }));
+  const link = src && !src.startsWith('about:') ? `[${title || src}](${src})` : '';
+  if (pdfPattern.test(src))
+    return link;
+  return await readChildFrame(iframe, depth, (frame, frameDepth) => readMarkdown(frame.locator('body'), frameDepth)) || link;
+}
+
+/**
+ * Runs in the page. Frames are left as "\u0000iframe:<index>\u0000"
+ * placeholders, where the index counts all frames below the root.
+ */
+function convertToMarkdown(root: Element): string {
+  const skipped = 'script, style, noscript, template, nav, button, input, select, textarea, [aria-hidden="true"]';
+  const iframes = [...root.querySelectorAll('iframe')];
+  const codeBlocks: string[] = [];
+  // Stands for a space that survives the whitespace cleanup, to indent nested list items.
+  const indent = '\u0001';
+
+  const block = (text: string) => `\n\n${text.trim()}\n\n`;
+  const childrenOf = (element: Element) => [...element.childNodes].map(render).join('');
+  const inlineOf = (element: Element) => childrenOf(element).replace(/\s+/g, ' ').trim();
+  const absolute = (url: string) => {
+    try {
+      return new URL(url, root.ownerDocument.baseURI).toString();
+    } catch (error) {
+      return url;
+    }
+  };
+
+  function render(node: Node): string {
+    if (node.nodeType === Node.TEXT_NODE)
+      return (node.textContent ?? '').replace(/\s+/g, ' ');
+    if (node.nodeType !== Node.ELEMENT_NODE)
+      return '';
+    const e = node as HTMLElement;
+    if (e.matches(skipped) || (e.checkVisibility && !e.checkVisibility()))
+      return '';
+
+    const tag = e.tagName.toLowerCase();
+    switch (tag) {
+      case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6': {
+        const text = inlineOf(e);
+        return text ? block(`${'#'.repeat(+tag[1])} ${text}`) : '';
+      }
+      case 'pre': {
+        const language = (e.querySelector('code')?.className ?? e.className).match(/(?:language|lang)-([\w+#-]+)/)?.[1] ?? '';
+        const code = (e.textContent ?? '').replace(/\n+$/, '');
+        const fence = code.includes('```') ? '~~~' : '```';
+        codeBlocks.push(`${fence}${language}\n${code}\n${fence}`);
+        return block(`\u0000code:${codeBlocks.length - 1}\u0000`);
+      }
+      case 'code': case 'kbd': case 'samp': {
+        const code = (e.textContent ?? '').replace(/\s+/g, ' ');
+        return code.trim() ? (code.includes('`') ? `\`\` ${code} \`\`` : `\`${code}\``) : '';
+      }
+      case 'strong': case 'b': {
+        const text = inlineOf(e);
+        return text ? `**${text}**` : '';
+      }
+      case 'em': case 'i': {
+        const text = inlineOf(e);
+        return text ? `*${text}*` : '';
+      }
+      case 'a': {
+        const text = inlineOf(e);
+        const href = e.getAttribute('href');
+        if (!href || href.startsWith('#') || href.startsWith('javascript:'))
+          return text;
+        return text ? `[${text}](${absolute(href)})` : '';
+      }
+      case 'img': {
+        const image = e as HTMLImageElement;
+        const alt = (image.alt ?? '').replace(/\s+/g, ' ').trim();
+        return image.getAttribute('src') ? `![${alt}](${absolute(image.getAttribute('src')!)})` : alt;
+      }
+      case 'br':
+        return '\n';
+      case 'hr':
+        return block('---');
+      case 'ul': case 'ol': {
+        const items = [...e.children].filter(child => child.tagName === 'LI');
+        const start = tag === 'ol' ? Number((e as HTMLOListElement).start || 1) : 1;
+        return block(items.map((item, index) => {
+          const marker = tag === 'ol' ? `${start + index}.` : '-';
+          const lines = childrenOf(item).replace(/[ \t]*\n[ \t]*/g, '\n').replace(/\n{2,}/g, '\n').trim().split('\n');
+          const continuation = indent.repeat(marker.length + 1);
+          return `${marker} ${lines[0]}` + lines.slice(1).map(line => `\n${continuation}${line}`).join('');
+        }).join('\n'));
+      }
+      case 'blockquote':
+        return block(childrenOf(e).replace(/[ \t]*\n[ \t]*/g, '\n').trim().split('\n').map(line => line ? `> ${line}` : '>').join('\n'));
+      case 'table': {
+        const rows = [...(e as HTMLTableElement).rows].map(row => [...row.cells].map(cell => inlineOf(cell).replace(/\|/g, '\\|')));
+        if (!rows.length)
+          return '';
+        const columns = Math.max(...rows.map(row => row.length));
+        const line = (cells: string[]) => `| ${[...cells, ...Array(columns - cells.length).fill('')].join(' | ')} |`;
+        return block([line(rows[0]), line(Array(columns).fill('---')), ...rows.slice(1).map(line)].join('\n'));
+      }
+      case 'iframe':
+        return block(`\u0000iframe:${iframes.indexOf(e as HTMLIFrameElement)}\u0000`);
+      case 'embed': case 'object': {
+        const src = e.getAttribute('src') ?? e.getAttribute('data');
+        return src ? block(`[${e.getAttribute('title') || absolute(src)}](${absolute(src)})`) : '';
+      }
+    }
+
+    const display = getComputedStyle(e).display;
+    const children = childrenOf(e);
+    return display === 'inline' || display === 'inline-block' ? children : block(children);
+  }
+
+  return render(root)
+      .replace(/[ \t]*\n[ \t]*/g, '\n')
+      .replace(/ {2,}/g, ' ')
+      .replace(/\n{3,}/g, '\n\n')
+      .replace(/\u0001/g, ' ')
+      .replace(/\u0000code:(\d+)\u0000/g, (_, index) => codeBlocks[+index])
+      .trim();
+}
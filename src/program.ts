@@ -26,67 +26,62 @@ import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
 
 import { createServer } from './index';
 import { ServerList } from './server';
+import { loadConfig } from './config';
+import { parseCredentialsOption } from './credentials';
+import { sanitizeForFilePath } from './tools/utils';
+import { Context } from './context';
+import { collectDeadlines, filterDeadlines } from './deadlines';
+import { exportCourse } from './exportCourse';
+import { formatDeadlinesAsIcal } from './ical';
+import { configureLogging, createLogger, isLogLevel, logLevels } from './logger';
 
 import type { LaunchOptions } from 'playwright';
 import assert from 'assert';
 import { ToolCapability } from './tools/tool';
+import type { ContextOptions, Profile } from './context';
 
 const packageJSON = require('../package.json');
 
+const storageStateFileName = 'iniad-moocs-storage-state.json';
+
+const logger = createLogger('program');
+
 program
     .version('Version ' + packageJSON.version)
     .name(packageJSON.name)
+    .option('--base-url <url>', 'Base URL of the MOOCs site, e.g. a local mirror or a staging instance. Default is https://moocs.iniad.org.')
     .option('--browser <browser>', 'Browser or chrome channel to use, possible values: chrome, firefox, webkit, msedge.')
-    .option('--caps <caps>', 'Comma-separated list of capabilities to enable, possible values: tabs, pdf, history, wait, files, install. Default is all.')
+    .option('--caps <caps>', 'Comma-separated list of capabilities to enable, possible values: tabs, pdf, history, wait, files, install, tracing. Default is all.')
     .option('--cdp-endpoint <endpoint>', 'CDP endpoint to connect to.')
+    .option('--config <path>', 'Path to a JSON or YAML config file declaring account profiles and selector overrides.')
+    .option('--credentials <provider>', 'Where to read the INIAD credentials from, possible values: env (INIAD_USERNAME and INIAD_PASSWORD, default), file:<path> (secrets file readable only by the owner), command:<command> (prints the password, e.g. "command:pass show iniad"), interactive (log in in the browser window, nothing is stored).')
     .option('--executable-path <path>', 'Path to the browser executable.')
     .option('--headless', 'Run browser in headless mode, headed by default')
+    .option('--id-manager-host <host>', 'Host of the INIAD ID Manager the MOOCs site redirects to for login. Default is id.iniad.org.')
+    .option('--keep-failures <count>', 'Number of failure bundles to keep in the output directory. Default is 20.')
+    .option('--log-file <path>', 'File to append the log to as JSON lines. Logs to stderr by default.')
+    .option('--log-level <level>', `Minimum level of the messages to log, possible values: ${logLevels.join(', ')}. Default is info.`)
+    .option('--output-dir <path>', 'Directory to save a bundle with a screenshot, the snapshot and the console messages into when a tool call fails, and the traces of tool calls. Defaults to iniad-moocs-mcp-output in the temporary directory.')
     .option('--port <port>', 'Port to listen on for SSE transport.')
+    .option('--profile <name>', 'Name of the account profile from the config file to start with.')
+    .option('--read-only', 'Never submit assignments: submit_assignment always does a dry run and stops before clicking the submit button, and the other tools refuse to click submit buttons or press Enter in forms.')
+    .option('--save-trace', 'Save a Playwright trace of every tool call to the traces directory below the output directory.')
+    .option('--storage-state <path>', 'Path to the file used to save and restore the MOOCs login session. Defaults to a file inside the user data directory.')
+    .option('--trace-failures', 'Record a Playwright trace of every tool call and keep it in the failure bundle when the call fails.')
     .option('--user-data-dir <path>', 'Path to the user data directory')
+    .option('--workspace-dir <path>', 'Directory to save downloaded attachments into. Defaults to INIAD-MOOCs in the home directory.')
     .option('--vision', 'Run server that uses screenshots (Aria snapshots are used by default)')
+    .hook('preAction', (_, actionCommand) => {
+      const options = actionCommand.optsWithGlobals();
+      if (options.logLevel !== undefined && !isLogLevel(options.logLevel))
+        throw new Error(`Unknown log level: ${options.logLevel}. Possible values: ${logLevels.join(', ')}`);
+      configureLogging({ level: options.logLevel, file: options.logFile });
+    })
     .action(async options => {
-      let browserName: 'chromium' | 'firefox' | 'webkit';
-      let channel: string | undefined;
-      switch (options.browser) {
-        case 'chrome':
-        case 'chrome-beta':
-        case 'chrome-canary':
-        case 'chrome-dev':
-        case 'msedge':
-        case 'msedge-beta':
-        case 'msedge-canary':
-        case 'msedge-dev':
-          browserName = 'chromium';
-          channel = options.browser;
-          break;
-        case 'chromium':
-          browserName = 'chromium';
-          break;
-        case 'firefox':
-          browserName = 'firefox';
-          break;
-        case 'webkit':
-          browserName = 'webkit';
-          break;
-        default:
-          browserName = 'chromium';
-          channel = 'chrome';
-      }
-
-      const launchOptions: LaunchOptions = {
-        headless: !!options.headless,
-        channel,
-        executablePath: options.executablePath,
-      };
-
-      const userDataDir = options.userDataDir ?? await createUserDataDir(browserName);
-
+      const contextOptions = await resolveContextOptions(options);
       const serverList = new ServerList(() => createServer({
-        browserName,
-        userDataDir,
-        launchOptions,
+        ...contextOptions,
         vision: !!options.vision,
-        cdpEndpoint: options.cdpEndpoint,
         capabilities: options.caps?.split(',').map((c: string) => c.trim() as ToolCapability),
       }));
       setupExitWatchdog(serverList);
@@ -111,9 +106,141 @@ function setupExitWatchdog(serverList: ServerList) {
   process.on('SIGTERM', handleExit);
 }
 
+program
+    .command('export-ical')
+    .description('Collect the assignment deadlines and export them as an iCalendar (.ics) file.')
+    .option('--output <path>', 'Path of the .ics file to write. Writes to stdout by default.')
+    .option('--within-days <days>', 'Only export deadlines from now until this many days ahead. All upcoming deadlines by default.')
+    .option('--include-past', 'Also export deadlines that have already passed.')
+    .option('--status <status>', 'Only export deadlines of lectures with this submission status, possible values: submitted, unsubmitted, graded.')
+    .option('--courses <ids>', 'Comma-separated list of the IDs of the courses to check. All courses by default.')
+    .action(async (_, command) => {
+      const options = command.optsWithGlobals();
+      const context = new Context(await resolveContextOptions(options));
+      try {
+        const deadlines = await collectDeadlines(context, {
+          courses: options.courses?.split(',').map((c: string) => c.trim()),
+          status: options.status,
+        });
+        const selected = filterDeadlines(deadlines, {
+          withinDays: options.withinDays === undefined ? undefined : +options.withinDays,
+          includePast: !!options.includePast,
+        });
+        const ical = formatDeadlinesAsIcal(selected);
+        if (options.output) {
+          await fs.promises.mkdir(path.dirname(path.resolve(options.output)), { recursive: true });
+          await fs.promises.writeFile(options.output, ical);
+          console.error(`Exported ${selected.length} deadlines to ${path.resolve(options.output)}`);
+        } else {
+          process.stdout.write(ical);
+        }
+      } finally {
+        await context.close();
+      }
+    });
+
+program
+    .command('export-course <course>')
+    .description('Export a course to a directory of Markdown files with its images and attachments for offline reading. Running it again resumes an interrupted export.')
+    .option('--output <dir>', 'Directory to write the export to. Defaults to a directory named after the course in the current directory.')
+    .option('--force', 'Export every page again instead of resuming an earlier export.')
+    .action(async (course, _, command) => {
+      const options = command.optsWithGlobals();
+      const context = new Context(await resolveContextOptions(options));
+      try {
+        const result = await exportCourse(context, {
+          course,
+          outputDir: options.output ?? sanitizeForFilePath(course),
+          force: !!options.force,
+        });
+        console.log(`Exported ${result.pages.exported} pages (${result.pages.skipped} already exported) and ${result.assets.downloaded} files to ${result.outputDir}`);
+        if (result.assets.failed.length)
+          console.log(`Could not download:\n${result.assets.failed.join('\n')}`);
+      } finally {
+        await context.close();
+      }
+    });
+
 program.parse(process.argv);
 
-async function createUserDataDir(browserName: 'chromium' | 'firefox' | 'webkit') {
+async function resolveContextOptions(options: any): Promise<ContextOptions> {
+  let browserName: 'chromium' | 'firefox' | 'webkit';
+  let channel: string | undefined;
+  switch (options.browser) {
+    case 'chrome':
+    case 'chrome-beta':
+    case 'chrome-canary':
+    case 'chrome-dev':
+    case 'msedge':
+    case 'msedge-beta':
+    case 'msedge-canary':
+    case 'msedge-dev':
+      browserName = 'chromium';
+      channel = options.browser;
+      break;
+    case 'chromium':
+      browserName = 'chromium';
+      break;
+    case 'firefox':
+      browserName = 'firefox';
+      break;
+    case 'webkit':
+      browserName = 'webkit';
+      break;
+    default:
+      browserName = 'chromium';
+      channel = 'chrome';
+  }
+
+  const launchOptions: LaunchOptions = {
+    headless: !!options.headless,
+    channel,
+    executablePath: options.executablePath,
+  };
+
+  const userDataDir = options.userDataDir ?? await createUserDataDir(browserName);
+  const storageState = options.storageState ?? path.join(userDataDir, storageStateFileName);
+  const credentials = options.credentials ? parseCredentialsOption(options.credentials) : undefined;
+
+  const config = options.config ? await loadConfig(options.config) : {};
+  const profiles: Profile[] = [];
+  for (const [name, profileConfig] of Object.entries(config.profiles ?? {})) {
+    const profileUserDataDir = profileConfig.userDataDir ?? await createUserDataDir(browserName, name);
+    profiles.push({
+      name,
+      userDataDir: profileUserDataDir,
+      storageState: profileConfig.storageState ?? path.join(profileUserDataDir, storageStateFileName),
+      credentials: profileConfig.credentials,
+    });
+  }
+  const profile = options.profile ?? config.defaultProfile;
+  if (profile && profile !== 'default' && !profiles.some(p => p.name === profile))
+    throw new Error(`Profile "${profile}" is not declared in the config file.`);
+
+  return {
+    browserName,
+    userDataDir,
+    launchOptions,
+    cdpEndpoint: options.cdpEndpoint,
+    storageState,
+    credentials,
+    profiles,
+    profile,
+    site: {
+      baseUrl: options.baseUrl,
+      idManagerHost: options.idManagerHost,
+    },
+    selectors: config.selectors,
+    workspaceDir: options.workspaceDir,
+    outputDir: options.outputDir,
+    keepFailures: options.keepFailures === undefined ? undefined : +options.keepFailures,
+    traceFailures: !!options.traceFailures,
+    saveTrace: !!options.saveTrace,
+    readOnly: !!options.readOnly,
+  };
+}
+
+async function createUserDataDir(browserName: 'chromium' | 'firefox' | 'webkit', profileName?: string) {
   let cacheDirectory: string;
   if (process.platform === 'linux')
     cacheDirectory = process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache');
@@ -123,7 +250,8 @@ async function createUserDataDir(browserName: 'chromium' | 'firefox' | 'webkit')
     cacheDirectory = process.env.LOCALAPPDATA || path.join(os.homedir(), 'AppData', 'Local');
   else
     throw new Error('Unsupported platform: ' + process.platform);
-  const result = path.join(cacheDirectory, 'ms-playwright', `mcp-${browserName}-profile`);
+  const profileSuffix = profileName ? `-${sanitizeForFilePath(profileName)}` : '';
+  const result = path.join(cacheDirectory, 'ms-playwright', `mcp-${browserName}-profile${profileSuffix}`);
   await fs.promises.mkdir(result, { recursive: true });
   return result;
 }
@@ -154,7 +282,7 @@ async function startSSEServer(port: number, serverList: ServerList) {
       const server = await serverList.create();
       res.on('close', () => {
         sessions.delete(transport.sessionId);
-        serverList.close(server).catch(e => console.error(e));
+        serverList.close(server).catch(error => logger.error('Failed to close the server', { error }));
       });
       await server.connect(transport);
       return;
@@ -0,0 +1,208 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { createLogger } from './logger';
+
+import type * as playwright from 'playwright';
+import type { Selectors } from './selectors';
+import type { Site } from './site';
+
+const logger = createLogger('scraping');
+
+export type SubmissionStatus = 'submitted' | 'unsubmitted' | 'graded';
+
+export type CourseLink = {
+  id: string;
+  title: string;
+  url: string;
+};
+
+export type LectureLink = {
+  /**
+   * Path of the lecture below the course list, e.g. "2025/CS101/01-intro".
+   */
+  id: string;
+  title: string;
+  url: string;
+  status?: SubmissionStatus;
+  score?: string;
+};
+
+export type LectureSection = {
+  /**
+   * 1-based position of the section in the sidebar.
+   */
+  index: number;
+  title: string;
+  /**
+   * Lectures with their 1-based position in the section.
+   */
+  lectures: (LectureLink & { index: number })[];
+};
+
+export type SlideLink = {
+  slideNumber: string;
+  title: string;
+  url: string;
+};
+
+// "未提出" has to be checked before "提出済", as "not submitted" before "submitted".
+const statusMarkers: [RegExp, SubmissionStatus][] = [
+  [/採点済|graded/i, 'graded'],
+  [/未提出|not submitted|unsubmitted/i, 'unsubmitted'],
+  [/提出済|submitted/i, 'submitted'],
+];
+const scorePattern = /\d+(?:\.\d+)?\s*(?:\/\s*\d+(?:\.\d+)?\s*点?|点)/;
+
+/**
+ * Reads the courses from the courses page.
+ */
+export async function scrapeCourses(page: playwright.Page, selectors: Selectors, baseUrl: string): Promise<CourseLink[]> {
+  const headings = await page.locator(selectors.courses.courseHeading).all();
+  const courses: CourseLink[] = [];
+
+  for (const heading of headings) {
+    try {
+      const href = await heading.locator(selectors.courses.viewCourseLink).getAttribute('href');
+      const title = (await heading.textContent() ?? '').trim();
+
+      if (href && title) {
+        const absoluteUrl = new URL(href, baseUrl).toString();
+        const urlParts = href.split('/');
+        const id = urlParts[urlParts.length - 1] || 'unknown';
+
+        courses.push({ id, title, url: absoluteUrl });
+      }
+    } catch (error) {
+      const titleText = (await heading.textContent() ?? '').trim();
+      if (titleText && titleText !== 'Other Courses')
+        logger.warning(`Could not find valid 'View Course' link for heading: "${titleText}". Skipping.`);
+    }
+  }
+  return courses;
+}
+
+/**
+ * Reads the lecture links and their submission status from the sidebar of a
+ * course page, grouped by the chapter or week they belong to. Opens the
+ * sidebar first if it is collapsed. Lectures outside of any section are
+ * grouped into sections without a title.
+ */
+export async function scrapeLectureSections(page: playwright.Page, selectors: Selectors, site: Site): Promise<LectureSection[]> {
+  const baseUrl = new URL(page.url()).origin;
+  const lectureLinksLocator = page.locator(selectors.course.lectureLinks);
+
+  let links = await lectureLinksLocator.all();
+
+  if (links.length === 0) {
+    logger.debug('No lecture links found initially with the specified selector. Checking if sidebar needs toggling...');
+    const sidebarToggleButton = page.locator(selectors.navbar.sidebarToggle);
+    const bookmarkLink = page.locator(selectors.course.bookmarkLink);
+    if (await sidebarToggleButton.isVisible() && !(await bookmarkLink.isVisible({ timeout: 500 }))) {
+      logger.debug('Sidebar seems closed, attempting to toggle...');
+      await sidebarToggleButton.click();
+      await page.waitForTimeout(500);
+      links = await lectureLinksLocator.all();
+      logger.debug(`Found ${links.length} links after toggling sidebar.`);
+    } else {
+      logger.debug('Sidebar already seems open or toggle button not found.');
+    }
+  }
+
+  const sectionsLocator = page.locator(selectors.course.sections);
+  const sectionTitles: string[] = [];
+  for (const section of await sectionsLocator.all()) {
+    const title = section.locator(selectors.course.sectionTitle).first();
+    sectionTitles.push(await title.count() ? (await title.textContent() ?? '').replace(/\s+/g, ' ').trim() : '');
+  }
+  const linkHandles = await lectureLinksLocator.elementHandles();
+  const sectionOfLink = await sectionsLocator.evaluateAll((sections, links) => links.map(link => sections.findIndex(section => section.contains(link))), linkHandles);
+  await Promise.all(linkHandles.map(handle => handle.dispose()));
+
+  const result: LectureSection[] = [];
+  let current: { sectionIndex: number, section: LectureSection } | undefined;
+  for (const [i, link] of links.entries()) {
+    const href = await link.getAttribute('href');
+    if (!href)
+      continue;
+    const labels = (await link.locator(selectors.course.lectureStatus).allTextContents()).map(label => label.trim()).filter(Boolean);
+    let title = (await link.textContent() ?? '').trim();
+    for (const label of labels)
+      title = title.replace(label, '').trim();
+
+    const sectionIndex = sectionOfLink[i] ?? -1;
+    if (!current || current.sectionIndex !== sectionIndex) {
+      current = { sectionIndex, section: { index: result.length + 1, title: sectionTitles[sectionIndex] ?? '', lectures: [] } };
+      result.push(current.section);
+    }
+
+    const absoluteUrl = new URL(href, baseUrl).toString();
+    current.section.lectures.push({
+      index: current.section.lectures.length + 1,
+      id: site.pathId(absoluteUrl),
+      title,
+      url: absoluteUrl,
+      ...parseSubmissionStatus(labels),
+    });
+  }
+  return result;
+}
+
+/**
+ * Reads the lecture links and their submission status from the sidebar of a
+ * course page, in sidebar order.
+ */
+export async function scrapeLectureLinks(page: playwright.Page, selectors: Selectors, site: Site): Promise<LectureLink[]> {
+  const sections = await scrapeLectureSections(page, selectors, site);
+  return sections.flatMap(section => section.lectures.map(({ index, ...lecture }) => lecture));
+}
+
+/**
+ * Reads the numbered page links of a lecture, sorted by page number.
+ */
+export async function scrapeSlideLinks(page: playwright.Page, selectors: Selectors): Promise<SlideLink[]> {
+  const baseUrl = new URL(page.url()).origin;
+  const links = await page.locator(selectors.lecture.slideLinks).all();
+  const slides: SlideLink[] = [];
+  const addedUrls = new Set<string>();
+
+  for (const link of links) {
+    const slideNumber = (await link.textContent() ?? '').trim();
+    const href = await link.getAttribute('href');
+    const title = (await link.getAttribute('title') ?? slideNumber).trim();
+    if (href && /^\d+$/.test(slideNumber)) {
+      const absoluteUrl = (href === '#') ? page.url() : new URL(href, baseUrl).toString();
+
+      if (!addedUrls.has(absoluteUrl)) {
+        slides.push({ slideNumber, title, url: absoluteUrl });
+        addedUrls.add(absoluteUrl);
+      }
+    }
+  }
+
+  slides.sort((a, b) => Number.parseInt(a.slideNumber, 10) - Number.parseInt(b.slideNumber, 10));
+  return slides;
+}
+
+/**
+ * Reads the submission status and score from the labels next to a lecture link.
+ */
+export function parseSubmissionStatus(labels: string[]): { status?: SubmissionStatus, score?: string } {
+  const text = labels.join(' ');
+  const score = text.match(scorePattern)?.[0].replace(/\s+/g, '');
+  const status = statusMarkers.find(([marker]) => marker.test(text))?.[1] ?? (score ? 'graded' : undefined);
+  return { status, score };
+}
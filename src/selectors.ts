@@ -0,0 +1,142 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Selectors describing the markup of INIAD MOOCs and the INIAD ID Manager,
+ * grouped by page type. Every value is a Playwright selector.
+ */
+export type Selectors = {
+  login: {
+    /** "Sign in with INIAD Account" link on the logged out MOOCs page. */
+    signInLink: string;
+    /** ID Manager username field. */
+    username: string;
+    /** ID Manager password field. */
+    password: string;
+    /** ID Manager submit button. */
+    submit: string;
+  };
+  navbar: {
+    /** Element holding the user ID of the logged in user. */
+    user: string;
+    /** Button opening and closing the sidebar. */
+    sidebarToggle: string;
+  };
+  courses: {
+    /** Heading holding the title of each course. */
+    courseHeading: string;
+    /** "View Course" link, relative to the course heading. */
+    viewCourseLink: string;
+  };
+  course: {
+    /** Lecture links in the sidebar. */
+    lectureLinks: string;
+    /** Chapter or week grouping lecture links in the sidebar. */
+    sections: string;
+    /** Title of the section, relative to the section. */
+    sectionTitle: string;
+    /** Submission status label, relative to the lecture link. */
+    lectureStatus: string;
+    /** Bookmarks link, only visible while the sidebar is open. */
+    bookmarkLink: string;
+  };
+  lecture: {
+    /** Numbered page links of the lecture. */
+    slideLinks: string;
+    /** Main content of a lecture page, without the navigation around it. */
+    content: string;
+  };
+};
+
+export type PageType = keyof Selectors;
+
+export type SelectorOverrides = {
+  /**
+   * Version of the default selectors to start from, latest by default.
+   */
+  version?: string;
+} & {
+  [P in PageType]?: Partial<Selectors[P]>;
+};
+
+const selectors2025: Selectors = {
+  login: {
+    signInLink: 'text="Sign in with INIAD Account"',
+    username: 'input#username, input[name="username"], input[ref=s1e16]',
+    password: 'input#password, input[name="password"], input[ref=s1e18]',
+    submit: 'input[type="submit"][value="LOG IN"], button:has-text("LOG IN"), button[ref=s1e23]',
+  },
+  navbar: {
+    user: 'nav.navbar li.user-menu span.hidden-xs, nav.navbar li.user-menu > a',
+    sidebarToggle: 'nav.navbar a.sidebar-toggle',
+  },
+  courses: {
+    courseHeading: 'h4',
+    viewCourseLink: 'xpath=following-sibling::a[contains(text(), "View Course")]',
+  },
+  course: {
+    lectureLinks: 'aside.main-sidebar ul.sidebar-menu li.treeview ul.treeview-menu li a',
+    sections: 'aside.main-sidebar ul.sidebar-menu li.treeview',
+    sectionTitle: ':scope > a',
+    lectureStatus: '.label, .badge',
+    bookmarkLink: 'aside.main-sidebar a[href$="/bookmarks"]',
+  },
+  lecture: {
+    slideLinks: 'nav[aria-label="page navigation"] ul li a',
+    content: 'div.content-wrapper section.content',
+  },
+};
+
+/**
+ * Default selectors by the version of the site markup they were written for.
+ * Add a new version when the markup changes instead of editing an old one, so
+ * that installations pinned to a version keep working.
+ */
+export const selectorVersions: Record<string, Selectors> = {
+  '2025': selectors2025,
+};
+
+export const latestSelectorsVersion = '2025';
+
+const pageTypes = Object.keys(selectors2025) as PageType[];
+
+function pageOverridesSchema(pageType: PageType) {
+  const shape = Object.fromEntries(Object.keys(selectors2025[pageType]).map(name => [name, z.string().min(1).optional()]));
+  return z.object(shape).strict().optional();
+}
+
+export const selectorOverridesSchema = z.object({
+  version: z.string().optional(),
+  ...Object.fromEntries(pageTypes.map(pageType => [pageType, pageOverridesSchema(pageType)])),
+}).strict() as z.ZodType<SelectorOverrides>;
+
+/**
+ * Returns the default selectors of the requested version with the overrides
+ * applied on top.
+ */
+export function resolveSelectors(overrides?: SelectorOverrides): Selectors {
+  const version = overrides?.version ?? latestSelectorsVersion;
+  const defaults = selectorVersions[version];
+  if (!defaults)
+    throw new Error(`Unknown selectors version "${version}". Available versions: ${Object.keys(selectorVersions).join(', ')}`);
+
+  const result = {} as Record<PageType, Record<string, string>>;
+  for (const pageType of pageTypes)
+    result[pageType] = { ...defaults[pageType], ...overrides?.[pageType] };
+  return result as Selectors;
+}
@@ -15,13 +15,23 @@
  */
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
-import { CallToolRequestSchema, ListResourcesRequestSchema, ListToolsRequestSchema, ReadResourceRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { CallToolRequestSchema, ListResourcesRequestSchema, ListToolsRequestSchema, ReadResourceRequestSchema, SetLevelRequestSchema } from '@modelcontextprotocol/sdk/types.js';
 
 import { Context } from './context';
+import { reportFailure } from './failures';
+import { findMissingBrowser } from './install';
+import { createLogger, logLevel, runWithLogSink } from './logger';
+import { saveTrace, traceTitle } from './traces';
 
-import type { Tool } from './tools/tool';
+import type { Tool, ToolResult } from './tools/tool';
 import type { Resource } from './resources/resource';
 import type { ContextOptions } from './context';
+import type { LogSink } from './logger';
+import type { LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
+
+const logger = createLogger('server');
+
+const mcpLogLevels: LoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
 
 type Options = ContextOptions & {
   name: string;
@@ -33,13 +43,39 @@ type Options = ContextOptions & {
 export function createServerWithTools(options: Options): Server {
   const { name, version, tools, resources } = options;
   const context = new Context(options);
+  // Check the browser up front, so that a missing one is reported with how to
+  // install it rather than as a launch failure in the middle of the first tool call.
+  const installTool = tools.some(tool => tool.capability === 'install');
+  let missingBrowser = findMissingBrowser(options, installTool);
+  if (missingBrowser)
+    logger.error(missingBrowser);
   const server = new Server({ name, version }, {
     capabilities: {
       tools: {},
       resources: {},
-    }
+      logging: {},
+    },
+    instructions: missingBrowser,
   });
 
+  // Forward the log records to the client from the level it asked for, or the
+  // configured level until it asks.
+  let clientLogLevel: LoggingLevel | undefined;
+  let initialized = false;
+  server.oninitialized = () => initialized = true;
+  server.setRequestHandler(SetLevelRequestSchema, async request => {
+    clientLogLevel = request.params.level;
+    return {};
+  });
+  const logSink: LogSink = record => {
+    if (!initialized || mcpLogLevels.indexOf(record.level) < mcpLogLevels.indexOf(clientLogLevel ?? logLevel()))
+      return;
+    const data = record.data ? { message: record.message, ...record.data } : record.message;
+    void server.sendLoggingMessage({ level: record.level, logger: record.logger, data }).catch(() => {});
+  };
+  // Only the records logged while handling this server's requests go to its client.
+  const withLogSink = <A extends unknown[], R>(handler: (...args: A) => R) => (...args: A) => runWithLogSink(logSink, () => handler(...args));
+
   server.setRequestHandler(ListToolsRequestSchema, async () => {
     return { tools: tools.map(tool => tool.schema) };
   });
@@ -48,7 +84,7 @@ export function createServerWithTools(options: Options): Server {
     return { resources: resources.map(resource => resource.schema) };
   });
 
-  server.setRequestHandler(CallToolRequestSchema, async request => {
+  server.setRequestHandler(CallToolRequestSchema, withLogSink(async request => {
     const tool = tools.find(tool => tool.schema.name === request.params.name);
     if (!tool) {
       return {
@@ -57,25 +93,50 @@ export function createServerWithTools(options: Options): Server {
       };
     }
 
+    if (missingBrowser && tool.capability !== 'install') {
+      missingBrowser = findMissingBrowser(options, installTool);
+      if (missingBrowser) {
+        return {
+          content: [{ type: 'text', text: missingBrowser }],
+          isError: true,
+        };
+      }
+    }
+
+    const progressToken = request.params._meta?.progressToken;
+    let progress = 0;
+    const reportProgress = (message: string) => {
+      if (progressToken !== undefined)
+        void server.notification({ method: 'notifications/progress', params: { progressToken, progress: ++progress, message } }).catch(() => {});
+    };
+
+    const call = { tool: tool.schema.name, arguments: request.params.arguments };
+    await context.startTraceChunk(traceTitle(call)).catch(error => logger.warning('Could not start tracing the tool call', { error }));
+    let result: ToolResult;
     try {
-      const result = await tool.handle(context, request.params.arguments);
-      return result;
+      result = await tool.handle(context, request.params.arguments, reportProgress);
     } catch (error) {
-      return {
+      logger.error(`Tool ${tool.schema.name} failed`, { error });
+      result = {
         content: [{ type: 'text', text: String(error) }],
         isError: true,
       };
     }
-  });
-
-  server.setRequestHandler(ReadResourceRequestSchema, async request => {
+    if (result.isError)
+      return await reportFailure(context, call, result);
+    await saveTrace(context, call);
+    await context.stopTraceChunk().catch(() => {});
+    return result;
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, withLogSink(async request => {
     const resource = resources.find(resource => resource.schema.uri === request.params.uri);
     if (!resource)
       return { contents: [] };
 
     const contents = await resource.read(context, request.params.uri);
     return { contents };
-  });
+  }));
 
   const oldClose = server.close.bind(server);
 
@@ -0,0 +1,90 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import type * as playwright from 'playwright';
+
+export type StorageState = Awaited<ReturnType<playwright.BrowserContext['storageState']>>;
+
+export type SessionInfo = {
+  path: string;
+  savedAt: Date;
+  ageMs: number;
+};
+
+export class SessionStore {
+  readonly storageStatePath: string;
+
+  constructor(storageStatePath: string) {
+    this.storageStatePath = storageStatePath;
+  }
+
+  async load(): Promise<StorageState | undefined> {
+    try {
+      const text = await fs.promises.readFile(this.storageStatePath, 'utf8');
+      return JSON.parse(text) as StorageState;
+    } catch (error) {
+      // Missing or corrupted state simply means there is no session to restore.
+      return undefined;
+    }
+  }
+
+  // Persistent and CDP contexts cannot be created from a storage state, so only cookies are carried over.
+  async restore(browserContext: playwright.BrowserContext) {
+    const state = await this.load();
+    if (state?.cookies.length)
+      await browserContext.addCookies(state.cookies);
+  }
+
+  async save(browserContext: playwright.BrowserContext) {
+    const state = await browserContext.storageState();
+    await fs.promises.mkdir(path.dirname(this.storageStatePath), { recursive: true });
+    // The file holds live session cookies, keep it private to the current user.
+    await fs.promises.writeFile(this.storageStatePath, JSON.stringify(state, undefined, 2), { mode: 0o600 });
+  }
+
+  async clear() {
+    await fs.promises.rm(this.storageStatePath, { force: true });
+  }
+
+  async info(): Promise<SessionInfo | undefined> {
+    try {
+      const stat = await fs.promises.stat(this.storageStatePath);
+      return {
+        path: this.storageStatePath,
+        savedAt: stat.mtime,
+        ageMs: Date.now() - stat.mtimeMs,
+      };
+    } catch (error) {
+      return undefined;
+    }
+  }
+}
+
+export function formatSessionAge(ageMs: number): string {
+  const minutes = Math.floor(ageMs / 60000);
+  if (minutes < 1)
+    return 'less than a minute';
+  if (minutes < 60)
+    return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24)
+    return `${hours} hour${hours === 1 ? '' : 's'}`;
+  const days = Math.floor(hours / 24);
+  return `${days} day${days === 1 ? '' : 's'}`;
+}
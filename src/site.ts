@@ -0,0 +1,109 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+export type SiteConfig = {
+  /**
+   * Origin (and optional path prefix) of the MOOCs site.
+   */
+  baseUrl: string;
+  /**
+   * Host of the INIAD ID Manager the MOOCs site redirects to for login.
+   */
+  idManagerHost: string;
+  /**
+   * Path of the course list, relative to the base URL.
+   */
+  coursesPath: string;
+  /**
+   * Names of the cookies holding the MOOCs login session.
+   */
+  sessionCookies: string[];
+};
+
+export const defaultSiteConfig: SiteConfig = {
+  baseUrl: 'https://moocs.iniad.org',
+  idManagerHost: 'id.iniad.org',
+  coursesPath: '/courses',
+  sessionCookies: ['sessionid'],
+};
+
+export class Site {
+  readonly baseUrl: string;
+  readonly idManagerHost: string;
+  readonly coursesPath: string;
+  readonly sessionCookies: string[];
+
+  constructor(config?: Partial<SiteConfig>) {
+    this.baseUrl = (config?.baseUrl ?? defaultSiteConfig.baseUrl).replace(/\/+$/, '');
+    this.idManagerHost = config?.idManagerHost ?? defaultSiteConfig.idManagerHost;
+    this.coursesPath = '/' + (config?.coursesPath ?? defaultSiteConfig.coursesPath).replace(/^\/+|\/+$/g, '');
+    this.sessionCookies = config?.sessionCookies ?? defaultSiteConfig.sessionCookies;
+  }
+
+  url(path = '/'): string {
+    return this.baseUrl + (path.startsWith('/') ? path : '/' + path);
+  }
+
+  coursesUrl(): string {
+    return this.url(this.coursesPath);
+  }
+
+  isMoocsUrl(url: string): boolean {
+    return url === this.baseUrl || url.startsWith(this.baseUrl + '/') || url.startsWith(this.baseUrl + '?');
+  }
+
+  isIdManagerUrl(url: string): boolean {
+    try {
+      return new URL(url).host === this.idManagerHost;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  isCoursesPage(url: string): boolean {
+    return this._pageRegex('/?').test(url);
+  }
+
+  isCoursePage(url: string): boolean {
+    return this._pageRegex('/\\d{4}/[A-Z0-9]+/?').test(url);
+  }
+
+  isLectureOrSlidePage(url: string): boolean {
+    return this._pageRegex('/\\d{4}/[A-Z0-9]+/[A-Za-z0-9_-]+/?(\\d+)?/?').test(url);
+  }
+
+  /**
+   * Identifies a MOOCs page by its path below the course list, e.g.
+   * "2025/CS101/01-intro". Unlike the last path segment alone, it is unique
+   * across courses and chapters.
+   */
+  pathId(url: string): string {
+    const parsed = new URL(url);
+    parsed.search = '';
+    parsed.hash = '';
+    const href = parsed.toString().replace(/\/+$/, '');
+    const prefix = this.coursesUrl() + '/';
+    return href.startsWith(prefix) ? href.slice(prefix.length) : parsed.pathname.replace(/^\/+|\/+$/g, '');
+  }
+
+  private _pageRegex(suffix: string): RegExp {
+    return new RegExp('^' + escapeRegExp(this.coursesUrl()) + suffix + '$');
+  }
+}
+
+function escapeRegExp(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
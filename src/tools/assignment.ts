@@ -0,0 +1,261 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+
+import type { Context } from '../context';
+import type { Tool, ToolResult } from './tool';
+
+const GetAssignmentDetailsInputSchema = z.object({});
+
+const QuestionKindSchema = z.enum(['text', 'textarea', 'radio', 'checkbox', 'select', 'file']);
+
+const ChoiceSchema = z.object({
+  label: z.string().describe('The text shown for the choice.'),
+  value: z.string().describe('The value submitted for the choice.'),
+  selected: z.boolean().describe('Whether the choice is currently selected.'),
+  ref: z.string().optional().describe('Ref of the radio button or checkbox of the choice. Select options have no ref of their own, use the ref of the question.'),
+});
+
+const QuestionSchema = z.object({
+  prompt: z.string().describe('The question text.'),
+  kind: QuestionKindSchema.describe('The kind of input the question expects.'),
+  action: z.enum(['type', 'check', 'select', 'upload']).describe('The submit_assignment action that answers the question.'),
+  ref: z.string().optional().describe('Ref of the input. Radio buttons and checkboxes have a ref per choice instead.'),
+  name: z.string().optional().describe('The form field name of the input.'),
+  required: z.boolean().describe('Whether the input is marked as required.'),
+  value: z.union([z.string(), z.array(z.string())]).optional().describe('The current value: the text, the label of the selected radio choice, the labels of the checked or selected choices, or the names of the chosen files.'),
+  choices: z.array(ChoiceSchema).optional().describe('The choices of radio, checkbox and select questions.'),
+  accept: z.array(z.string()).optional().describe('File extensions or MIME types accepted by a file input.'),
+});
+
+const GetAssignmentDetailsOutputSchema = z.object({
+  url: z.string().describe('The URL of the problem page.'),
+  title: z.string().describe('The title of the problem page.'),
+  questions: z.array(QuestionSchema).describe('The questions in page order.'),
+  submitButton: z.object({
+    ref: z.string(),
+    label: z.string(),
+  }).optional().describe('The button that submits the answers.'),
+});
+
+type Question = z.infer<typeof QuestionSchema>;
+
+type ControlInfo = {
+  kind: z.infer<typeof QuestionKindSchema> | 'submit' | 'other';
+  group: string;
+  prompt: string;
+  label: string;
+  name: string;
+  value: string;
+  selected: boolean;
+  values: string[];
+  options: { label: string, value: string, selected: boolean }[];
+  accept: string[];
+  required: boolean;
+  inChrome: boolean;
+};
+
+const controlRoles = new Set(['textbox', 'searchbox', 'spinbutton', 'checkbox', 'radio', 'combobox', 'listbox', 'button']);
+
+const actions: Record<Question['kind'], Question['action']> = {
+  text: 'type',
+  textarea: 'type',
+  radio: 'check',
+  checkbox: 'check',
+  select: 'select',
+  file: 'upload',
+};
+
+/**
+ * Runs in the page. Describes a form control together with the question it
+ * belongs to, which is the closest text around it that does not belong to
+ * another control.
+ */
+export function describeControl(element: Element): ControlInfo {
+  const controlSelector = 'input:not([type="hidden"]), textarea, select, button';
+  const collapse = (text: string) => text.replace(/\s+/g, ' ').trim();
+  const textOf = (root: Element, excluded: Element[]) => {
+    let text = '';
+    const walker = element.ownerDocument.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      if (node.parentElement?.closest('textarea, select, button, script, style') || excluded.some(e => e.contains(node)))
+        continue;
+      text += ' ' + node.textContent;
+    }
+    return collapse(text);
+  };
+  const labelsOf = (e: Element) => [...((e as HTMLInputElement).labels ?? [])];
+
+  const tag = element.tagName.toLowerCase();
+  const input = element as HTMLInputElement;
+  const type = tag === 'input' || tag === 'button' ? input.type : '';
+  let kind: ControlInfo['kind'] = 'other';
+  if (tag === 'textarea')
+    kind = 'textarea';
+  else if (tag === 'select')
+    kind = 'select';
+  else if (type === 'submit' || type === 'image')
+    kind = 'submit';
+  else if (type === 'radio' || type === 'checkbox' || type === 'file')
+    kind = type;
+  else if (tag === 'input' && !['button', 'reset', 'hidden'].includes(type))
+    kind = 'text';
+
+  const isChoice = kind === 'radio' || kind === 'checkbox';
+  const scope = input.form ?? element.ownerDocument;
+  const members = isChoice && input.name ? [...scope.querySelectorAll(`input[type="${kind}"][name="${CSS.escape(input.name)}"]`)] : [element];
+  const label = collapse(labelsOf(element).map(l => textOf(l, [])).join(' ')) || element.getAttribute('aria-label') || input.placeholder || (kind === 'submit' ? collapse(input.value || element.textContent || '') : '');
+
+  let prompt = isChoice ? '' : label;
+  if (!prompt) {
+    // Walk up while the ancestors only hold this question; the first one with text of its own holds the prompt.
+    const excluded = members.flatMap(labelsOf);
+    let top = element;
+    for (let ancestor = element.parentElement; ancestor && ancestor !== element.ownerDocument.body; ancestor = ancestor.parentElement) {
+      if ([...ancestor.querySelectorAll(controlSelector)].some(control => !members.includes(control)))
+        break;
+      top = ancestor;
+      prompt = textOf(ancestor, excluded);
+      if (prompt)
+        break;
+    }
+    for (let sibling = top.previousElementSibling; sibling && !prompt; sibling = sibling.previousElementSibling) {
+      if (sibling.matches(controlSelector) || sibling.querySelector(controlSelector))
+        break;
+      prompt = textOf(sibling, []);
+    }
+  }
+
+  const select = element as HTMLSelectElement;
+  const options = kind === 'select' ? [...select.options].map(option => ({ label: collapse(option.label || option.text), value: option.value, selected: option.selected })) : [];
+  let values: string[] = [];
+  if (kind === 'text' || kind === 'textarea')
+    values = [input.value];
+  else if (kind === 'select')
+    values = options.filter(option => option.selected).map(option => option.label);
+  else if (kind === 'file')
+    values = [...(input.files ?? [])].map(file => file.name);
+
+  return {
+    kind,
+    group: isChoice && input.name ? `${kind}:${input.name}` : '',
+    prompt,
+    label: label || input.value,
+    name: input.name ?? '',
+    value: input.value ?? '',
+    selected: isChoice && input.checked,
+    values,
+    options,
+    accept: kind === 'file' ? input.accept.split(',').map(a => a.trim()).filter(Boolean) : [],
+    required: members.some(member => (member as HTMLInputElement).required || member.getAttribute('aria-required') === 'true'),
+    inChrome: !!element.closest('header, nav, aside, [role="banner"], [role="navigation"]'),
+  };
+}
+
+const getAssignmentDetails: Tool = {
+  capability: 'core',
+  schema: {
+    name: 'getAssignmentDetails',
+    description: 'Parses the problem page open in the current tab into its questions: prompt text, input kind (text, textarea, radio, checkbox, select, file), choices, current saved value, accepted file types and the submit button. Captures a new snapshot, so the returned refs can be passed to submit_assignment as they are. Returns a JSON string.',
+    inputSchema: zodToJsonSchema(GetAssignmentDetailsInputSchema),
+  },
+
+  handle: async (context: Context): Promise<ToolResult> => {
+    try {
+      const details = await context.runWithRelogin(async tab => {
+        const snapshot = await tab.captureSnapshot();
+        const questions: Question[] = [];
+        const groups = new Map<string, Question>();
+        let submitButton: { ref: string, label: string } | undefined;
+
+        for (const { role, ref } of snapshot.elements()) {
+          if (!controlRoles.has(role))
+            continue;
+          const info = await snapshot.refLocator(ref).evaluate(describeControl).catch(() => undefined);
+          if (!info || info.inChrome || info.kind === 'other')
+            continue;
+          if (info.kind === 'submit') {
+            submitButton ??= { ref, label: info.label };
+            continue;
+          }
+
+          if (info.kind === 'radio' || info.kind === 'checkbox') {
+            const choice = { label: info.label, value: info.value, selected: info.selected, ref };
+            const question = info.group ? groups.get(info.group) : undefined;
+            if (question) {
+              question.choices!.push(choice);
+              continue;
+            }
+            const created: Question = {
+              prompt: info.prompt,
+              kind: info.kind,
+              action: actions[info.kind],
+              name: info.name || undefined,
+              required: info.required,
+              choices: [choice],
+            };
+            if (info.group)
+              groups.set(info.group, created);
+            questions.push(created);
+            continue;
+          }
+
+          questions.push({
+            prompt: info.prompt,
+            kind: info.kind,
+            action: actions[info.kind],
+            ref,
+            name: info.name || undefined,
+            required: info.required,
+            value: info.kind === 'text' || info.kind === 'textarea' ? info.values[0] : info.values,
+            choices: info.kind === 'select' ? info.options : undefined,
+            accept: info.kind === 'file' ? info.accept : undefined,
+          });
+        }
+
+        for (const question of questions) {
+          if (question.kind === 'radio')
+            question.value = question.choices!.find(choice => choice.selected)?.label;
+          else if (question.kind === 'checkbox')
+            question.value = question.choices!.filter(choice => choice.selected).map(choice => choice.label);
+        }
+
+        return {
+          url: tab.page.url(),
+          title: await tab.page.title(),
+          questions,
+          submitButton,
+        };
+      });
+
+      const result = GetAssignmentDetailsOutputSchema.parse(details);
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: `Failed to get assignment details: ${error instanceof Error ? error.message : String(error)}` }],
+        isError: true,
+      };
+    }
+  },
+};
+
+export default [
+  getAssignmentDetails,
+];
@@ -0,0 +1,134 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import path from 'path';
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+
+import { downloadAttachment, scrapeAttachments } from '../attachments';
+
+import type { Context } from '../context';
+import type { Tool, ToolResult } from './tool';
+
+const ListAttachmentsInputSchema = z.object({});
+
+const DownloadAttachmentsInputSchema = z.object({
+  attachments: z.array(z.union([z.number().int().positive(), z.string()])).optional().describe('The attachments to download, by the index, URL or name returned by listAttachments. All attachments of the page by default.'),
+  directory: z.string().optional().describe('Directory to save into, relative to the workspace directory. Defaults to the path of the lecture, e.g. "2025/CS101/02-basics".'),
+  overwrite: z.boolean().default(false).describe('Replace files that were downloaded before. Existing files are kept by default, so that edits to them are not lost.'),
+});
+
+const AttachmentSchema = z.object({
+  index: z.number().describe('The 1-based position of the attachment on the page.'),
+  name: z.string().describe('The file name the attachment is saved as.'),
+  title: z.string().describe('The text of the link or the title of the embedded file.'),
+  url: z.string().url().describe('The URL of the file.'),
+  source: z.enum(['link', 'embed']).describe('Whether the file is linked or embedded in the page.'),
+});
+
+const ListAttachmentsOutputSchema = z.object({
+  url: z.string().describe('The URL of the page.'),
+  attachments: z.array(AttachmentSchema).describe('The attachments in page order.'),
+});
+
+const DownloadAttachmentsOutputSchema = z.object({
+  directory: z.string().describe('The absolute path of the directory the files were saved into.'),
+  files: z.array(z.object({
+    name: z.string(),
+    url: z.string().url(),
+    path: z.string().describe('The absolute path of the saved file.'),
+    status: z.enum(['downloaded', 'existing']).describe('Whether the file was downloaded now or kept from an earlier download.'),
+  })),
+});
+
+const listAttachments: Tool = {
+  capability: 'files',
+  schema: {
+    name: 'listAttachments',
+    description: 'Lists the files linked or embedded in the lecture page open in the current tab, such as starter notebooks (.ipynb), datasets and PDFs. Returns a JSON string.',
+    inputSchema: zodToJsonSchema(ListAttachmentsInputSchema),
+  },
+
+  handle: async (context: Context): Promise<ToolResult> => {
+    try {
+      const result = await context.runWithRelogin(async tab => ListAttachmentsOutputSchema.parse({
+        url: tab.page.url(),
+        attachments: await scrapeAttachments(tab.page, context.selectors),
+      }));
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: `Failed to list attachments: ${error instanceof Error ? error.message : String(error)}` }],
+        isError: true,
+      };
+    }
+  },
+};
+
+const downloadAttachments: Tool = {
+  capability: 'files',
+  schema: {
+    name: 'downloadAttachments',
+    description: 'Downloads attachments of the lecture page open in the current tab into the workspace directory and returns their absolute paths, so they can be opened and edited, e.g. a starter notebook to complete before uploading it with submit_assignment. Returns a JSON string.',
+    inputSchema: zodToJsonSchema(DownloadAttachmentsInputSchema),
+  },
+
+  handle: async (context: Context, params?: unknown): Promise<ToolResult> => {
+    try {
+      const { attachments: selection, directory, overwrite } = DownloadAttachmentsInputSchema.parse(params ?? {});
+      const result = await context.runWithRelogin(async tab => {
+        const attachments = await scrapeAttachments(tab.page, context.selectors);
+        if (!attachments.length)
+          throw new Error(`No attachments found on ${tab.page.url()}`);
+        const selected = (selection ?? attachments.map(attachment => attachment.index)).map(key => {
+          const attachment = attachments.find(attachment => attachment.index === key || attachment.url === key || attachment.name === key);
+          if (!attachment)
+            throw new Error(`Unknown attachment: ${key}. Available attachments: ${attachments.map(attachment => `${attachment.index} (${attachment.name})`).join(', ')}`);
+          return attachment;
+        });
+
+        const workspaceDir = context.workspaceDir();
+        const targetDir = path.resolve(workspaceDir, directory ?? context.site.pathId(tab.page.url()).replace(/\/\d+$/, ''));
+        const relative = path.relative(workspaceDir, targetDir);
+        if (relative === '..' || relative.startsWith('..' + path.sep) || path.isAbsolute(relative))
+          throw new Error(`The directory must be inside the workspace directory ${workspaceDir}`);
+
+        const files = [];
+        for (const attachment of selected) {
+          const file = await downloadAttachment(tab.page, attachment, targetDir, overwrite);
+          files.push({ name: attachment.name, url: attachment.url, ...file });
+        }
+        return { directory: targetDir, files };
+      });
+      return {
+        content: [{ type: 'text', text: JSON.stringify(DownloadAttachmentsOutputSchema.parse(result), null, 2) }],
+      };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: `Failed to download attachments: ${error instanceof Error ? error.message : String(error)}` }],
+        isError: true,
+      };
+    }
+  },
+};
+
+export default [
+  listAttachments,
+  downloadAttachments,
+];
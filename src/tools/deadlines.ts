@@ -0,0 +1,140 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+
+import { collectDeadlines, filterDeadlines, formatJst } from '../deadlines';
+import { formatDeadlinesAsIcal } from '../ical';
+
+import type { Context } from '../context';
+import type { Tool, ToolResult } from './tool';
+
+const SubmissionStatusSchema = z.enum(['submitted', 'unsubmitted', 'graded']);
+
+const ListUpcomingDeadlinesInputSchema = z.object({
+  withinDays: z.number().positive().default(14).describe('Only list deadlines from now until this many days ahead.'),
+  includeOverdue: z.boolean().default(false).describe('Also list unsubmitted problems whose deadline has already passed.'),
+  status: SubmissionStatusSchema.optional().describe('Only list deadlines of lectures with this submission status.'),
+  courses: z.array(z.string()).optional().describe('IDs of the courses to check, as returned by listCourses. All courses by default.'),
+});
+
+const DeadlineSchema = z.object({
+  deadline: z.string().describe('The deadline as an ISO timestamp in Japan Standard Time.'),
+  overdue: z.boolean().describe('Whether the deadline has already passed.'),
+  course: z.object({ id: z.string(), title: z.string() }),
+  lecture: z.object({ id: z.string(), title: z.string(), url: z.string().url() }),
+  page: z.object({ title: z.string(), url: z.string().url() }).describe('The page the deadline was found on.'),
+  status: SubmissionStatusSchema.optional().describe('The submission status of the lecture.'),
+  score: z.string().optional().describe('The score of the lecture, once graded.'),
+});
+
+const ListUpcomingDeadlinesOutputSchema = z.object({
+  from: z.string().describe('Start of the time window.'),
+  to: z.string().describe('End of the time window.'),
+  deadlines: z.array(DeadlineSchema).describe('Deadlines sorted by date, earliest first.'),
+});
+
+const listUpcomingDeadlines: Tool = {
+  capability: 'core',
+  schema: {
+    name: 'listUpcomingDeadlines',
+    description: 'Walks every course (or the given ones) and the lectures with problems in their sidebars, collects the deadlines shown on the lecture and problem pages, joins them with the submission status and returns them sorted by date within the time window. Opens many pages in the current tab, so it takes a while. Returns a JSON string.',
+    inputSchema: zodToJsonSchema(ListUpcomingDeadlinesInputSchema),
+  },
+
+  handle: async (context: Context, params?: unknown): Promise<ToolResult> => {
+    try {
+      const { withinDays, includeOverdue, status, courses } = ListUpcomingDeadlinesInputSchema.parse(params ?? {});
+      const from = Date.now();
+      const to = from + withinDays * 24 * 60 * 60 * 1000;
+
+      const deadlines = await collectDeadlines(context, { courses, status });
+      const result = ListUpcomingDeadlinesOutputSchema.parse({
+        from: formatJst(new Date(from)),
+        to: formatJst(new Date(to)),
+        deadlines: deadlines.filter(deadline => {
+          const time = deadline.deadline.getTime();
+          if (time < from)
+            return includeOverdue && deadline.status === 'unsubmitted';
+          return time <= to;
+        }).map(deadline => ({
+          ...deadline,
+          deadline: formatJst(deadline.deadline),
+          overdue: deadline.deadline.getTime() < from,
+        })),
+      });
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: `Failed to list upcoming deadlines: ${error instanceof Error ? error.message : String(error)}` }],
+        isError: true,
+      };
+    }
+  },
+};
+
+const ExportDeadlinesToIcalInputSchema = z.object({
+  withinDays: z.number().positive().optional().describe('Only export deadlines from now until this many days ahead. All upcoming deadlines by default.'),
+  includePast: z.boolean().default(false).describe('Also export deadlines that have already passed.'),
+  status: SubmissionStatusSchema.optional().describe('Only export deadlines of lectures with this submission status.'),
+  courses: z.array(z.string()).optional().describe('IDs of the courses to check, as returned by listCourses. All courses by default.'),
+  outputPath: z.string().optional().describe('Path of the .ics file to write. The calendar is returned as text when omitted.'),
+});
+
+const exportDeadlinesToIcal: Tool = {
+  capability: 'core',
+  schema: {
+    name: 'exportDeadlinesToIcal',
+    description: 'Collects the deadlines like listUpcomingDeadlines and exports them as an iCalendar (.ics) file with one event per deadline, holding the course title, the lecture title and the MOOCs URL. Events keep their UIDs across exports, so importing a newer export updates the events instead of duplicating them. Writes the file to outputPath, or returns the calendar text when no path is given.',
+    inputSchema: zodToJsonSchema(ExportDeadlinesToIcalInputSchema),
+  },
+
+  handle: async (context: Context, params?: unknown): Promise<ToolResult> => {
+    try {
+      const { withinDays, includePast, status, courses, outputPath } = ExportDeadlinesToIcalInputSchema.parse(params ?? {});
+      const deadlines = filterDeadlines(await collectDeadlines(context, { courses, status }), { withinDays, includePast });
+      const ical = formatDeadlinesAsIcal(deadlines);
+      if (!outputPath) {
+        return {
+          content: [{ type: 'text', text: ical }],
+        };
+      }
+
+      const filePath = path.resolve(outputPath);
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.writeFile(filePath, ical);
+      return {
+        content: [{ type: 'text', text: `Exported ${deadlines.length} deadlines to ${filePath}` }],
+      };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: `Failed to export deadlines: ${error instanceof Error ? error.message : String(error)}` }],
+        isError: true,
+      };
+    }
+  },
+};
+
+export default [
+  listUpcomingDeadlines,
+  exportDeadlinesToIcal,
+];
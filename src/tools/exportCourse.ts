@@ -0,0 +1,57 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+
+import { exportCourse } from '../exportCourse';
+
+import type { Context } from '../context';
+import type { Tool, ToolResult } from './tool';
+
+const ExportCourseInputSchema = z.object({
+  course: z.string().describe('ID of the course as returned by listCourses, e.g. "CS101", or its path such as "2025/CS101".'),
+  outputDir: z.string().describe('Directory to write the export to. An earlier export of the same course in this directory is resumed.'),
+  force: z.boolean().default(false).describe('Export every page again instead of resuming an earlier export.'),
+});
+
+const exportCourseTool: Tool = {
+  capability: 'core',
+  schema: {
+    name: 'exportCourse',
+    description: 'Exports a whole course for offline reading: writes one Markdown file per page, grouped by section and lecture, downloads the images and attachments linked from the pages and writes an index.md linking everything. Progress is kept in a manifest.json, so running it again on the same directory resumes an interrupted export and only fetches missing pages. Opens every page in the current tab, so it takes a while. Returns a JSON summary.',
+    inputSchema: zodToJsonSchema(ExportCourseInputSchema),
+  },
+
+  handle: async (context: Context, params?: unknown): Promise<ToolResult> => {
+    try {
+      const { course, outputDir, force } = ExportCourseInputSchema.parse(params ?? {});
+      const result = await exportCourse(context, { course, outputDir, force });
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: `Failed to export course: ${error instanceof Error ? error.message : String(error)}` }],
+        isError: true,
+      };
+    }
+  },
+};
+
+export default [
+  exportCourseTool,
+];
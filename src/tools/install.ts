@@ -0,0 +1,58 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+
+import { browserInstallName, findMissingBrowser, installBrowser } from '../install';
+
+import type { Context } from '../context';
+import type { Tool, ToolProgress, ToolResult } from './tool';
+
+const installSchema = z.object({});
+
+const install: Tool = {
+  capability: 'install',
+  schema: {
+    name: 'browser_install',
+    description: 'Install the browser specified in the config. Call this if you get an error about the browser not being installed. Downloading the browser takes a few minutes.',
+    inputSchema: zodToJsonSchema(installSchema),
+  },
+
+  handle: async (context: Context, params?: unknown, progress?: ToolProgress): Promise<ToolResult> => {
+    const name = browserInstallName(context.options);
+    try {
+      installSchema.parse(params ?? {});
+      progress?.(`Installing ${name}...`);
+      await installBrowser(name, line => progress?.(line));
+      const missing = findMissingBrowser(context.options, false);
+      if (missing)
+        throw new Error(missing);
+      return {
+        content: [{ type: 'text', text: `Browser "${name}" installed` }],
+      };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: `Failed to install browser "${name}": ${error instanceof Error ? error.message : String(error)}` }],
+        isError: true,
+      };
+    }
+  },
+};
+
+export default [
+  install,
+];
@@ -18,6 +18,10 @@ import type { Context } from '../context';
 import type { Tool, ToolResult } from './tool';
 import { z } from 'zod';
 import { zodToJsonSchema } from 'zod-to-json-schema';
+import { scrapeCourses } from '../scraping';
+import { createLogger } from '../logger';
+
+const logger = createLogger('listCourses');
 
 const ListCoursesInputSchema = z.object({});
 
@@ -42,46 +46,24 @@ const listCoursesTool: Tool = {
 
   async handle(context: Context, params?: unknown): Promise<ToolResult> {
     try {
-      const tab = await context.ensureTab();
-      const page = tab.page;
-      const coursesUrl = 'https://moocs.iniad.org/courses';
-      const baseUrl = new URL(coursesUrl).origin;
-
-      if (page.url().split('?')[0] !== coursesUrl) {
-        console.log(`Navigating to ${coursesUrl}...`);
-        await page.goto(coursesUrl, { waitUntil: 'domcontentloaded' });
-      } else {
-        console.log('Already on the courses page.');
-      }
-
-
-      console.log('Listing courses (including IDs)...');
-
-      const courseHeadingLocator = page.locator('h4');
-      const headings = await courseHeadingLocator.all();
-      const courseData = [];
-
-      for (const heading of headings) {
-        try {
-          const viewCourseLinkLocator = heading.locator('xpath=following-sibling::a[contains(text(), "View Course")]');
-          const href = await viewCourseLinkLocator.getAttribute('href');
-          const title = (await heading.textContent() ?? '').trim();
-
-          if (href && title) {
-            const absoluteUrl = new URL(href, baseUrl).toString();
-            const urlParts = href.split('/');
-            const id = urlParts[urlParts.length - 1] || 'unknown';
-
-            courseData.push({ id, title, url: absoluteUrl });
-          }
-        } catch (error) {
-          const titleText = (await heading.textContent() ?? '').trim();
-          if (titleText && titleText !== 'Other Courses')
-            console.warn(`Could not find valid 'View Course' link for heading: "${titleText}". Skipping.`);
+      const coursesUrl = context.site.coursesUrl();
+      const baseUrl = context.site.baseUrl;
+
+      const courseData = await context.runWithRelogin(async tab => {
+        const page = tab.page;
+        if (page.url().split('?')[0] !== coursesUrl) {
+          logger.debug(`Navigating to ${coursesUrl}...`);
+          await page.goto(coursesUrl, { waitUntil: 'domcontentloaded' });
+        } else {
+          logger.debug('Already on the courses page.');
         }
-      }
 
-      console.log(`Found ${courseData.length} courses.`);
+
+        logger.debug('Listing courses (including IDs)...');
+        return await scrapeCourses(page, context.selectors, baseUrl);
+      });
+
+      logger.info(`Found ${courseData.length} courses.`);
 
       const result = ListCoursesOutputSchema.parse({ courses: courseData });
 
@@ -90,23 +72,12 @@ const listCoursesTool: Tool = {
       };
 
     } catch (error) {
-      console.error('Failed to list courses:', error);
+      logger.error('Failed to list courses', { error });
       let errorMessage = 'An unknown error occurred';
       if (error instanceof Error)
         errorMessage = error.message;
       else
         errorMessage = String(error);
-      try {
-        const tab = context.currentTab();
-        if (tab) {
-          const page = tab.page;
-          const screenshotPath = `list_courses_error_${Date.now()}.png`;
-          await page.screenshot({ path: screenshotPath });
-          console.log(`Screenshot saved to ${screenshotPath}`);
-        }
-      } catch (screenshotError) {
-        console.error('Failed to take screenshot:', screenshotError);
-      }
       return {
         content: [{ type: 'text', text: `Failed to list courses: ${errorMessage}` }],
         isError: true,
@@ -18,23 +18,51 @@ import type { Context } from '../context';
 import type { Tool, ToolResult } from './tool';
 import { z } from 'zod';
 import { zodToJsonSchema } from 'zod-to-json-schema';
+import { scrapeLectureSections, scrapeSlideLinks } from '../scraping';
+import { createLogger } from '../logger';
 
-const ListLecturesInputSchema = z.object({});
+const logger = createLogger('listLectures');
+
+const SubmissionStatusSchema = z.enum(['submitted', 'unsubmitted', 'graded']);
+
+const ListLecturesInputSchema = z.object({
+  status: SubmissionStatusSchema.optional().describe('Only list lectures with this submission status, e.g. "unsubmitted" to find what is still missing.'),
+  includePages: z.boolean().default(false).describe('Also open every listed lecture and list its pages. Takes a while for a whole course.'),
+});
+
+const PageLinkSchema = z.object({
+  index: z.number().describe('The page number within the lecture.'),
+  id: z.string().describe('The unique identifier of the page, its path below the course list.'),
+  title: z.string().describe('The title of the page.'),
+  url: z.string().url().describe('The absolute URL of the page.'),
+});
 
 const LectureLinkSchema = z.object({
-  id: z.string().describe('The unique identifier of the lecture (extracted from the URL).'),
+  index: z.number().describe('The 1-based position of the lecture within its section.'),
+  id: z.string().describe('The unique identifier of the lecture, its path below the course list, e.g. "2025/CS101/01-intro".'),
   title: z.string().describe('The display text/title of the lecture link.'),
   url: z.string().url().describe('The absolute URL of the lecture page.'),
+  status: SubmissionStatusSchema.optional().describe('The submission status shown next to the link, if the lecture has problems.'),
+  score: z.string().optional().describe('The score shown next to the link, e.g. "8/10", once graded.'),
+  pages: z.array(PageLinkSchema).optional().describe('The pages of the lecture, when includePages is set.'),
+});
+
+const LectureSectionSchema = z.object({
+  index: z.number().describe('The 1-based position of the section in the sidebar.'),
+  title: z.string().describe('The title of the chapter or week, e.g. "第3回 関数". Empty for lectures outside of any section.'),
+  lectures: z.array(LectureLinkSchema).describe('The lectures of the section, in sidebar order.'),
 });
 
 const ListLecturesOutputSchema = z.object({
-  lectures: z.array(LectureLinkSchema).describe('A list of lectures found in the sidebar.'),
+  sections: z.array(LectureSectionSchema).describe('The sections of the sidebar with their lectures. Sections without matching lectures are left out.'),
 });
 
+type LectureLink = z.infer<typeof LectureLinkSchema>;
+
 const listLectureLinksTool: Tool = {
   schema: {
     name: 'listLectureLinks',
-    description: 'Lists all available lecture links (ID, title, URL) found in the sidebar of the current course page. Returns a JSON string representing an object with a "lectures" array.',
+    description: 'Lists the lectures found in the sidebar of the current course page as a tree: the sections (chapters or weeks, e.g. "第3回") with their titles, the lectures of each section (path-based ID, title, URL) with the submission status (submitted, unsubmitted or graded) and score shown for lectures that have problems, and optionally the pages of each lecture. Returns a JSON string representing an object with a "sections" array.',
     inputSchema: zodToJsonSchema(ListLecturesInputSchema),
   },
 
@@ -42,72 +70,44 @@ const listLectureLinksTool: Tool = {
 
   async handle(context: Context, params?: unknown): Promise<ToolResult> {
     try {
-      const tab = await context.ensureTab();
-      const page = tab.page;
-      const baseUrl = new URL(page.url()).origin;
-
-      console.log('Listing lecture links from sidebar...');
-
-      const lectureLinksLocator = page.locator('aside.main-sidebar ul.sidebar-menu li.treeview ul.treeview-menu li a');
-
-      let links = await lectureLinksLocator.all();
-
-      if (links.length === 0) {
-        console.log('No lecture links found initially with the specified selector. Checking if sidebar needs toggling...');
-        const sidebarToggleButton = page.locator('nav.navbar a.sidebar-toggle');
-        const bookmarkLink = page.locator('aside.main-sidebar a[href="/courses/bookmarks"]');
-        if (await sidebarToggleButton.isVisible() && !(await bookmarkLink.isVisible({ timeout: 500 }))) {
-          console.log('Sidebar seems closed, attempting to toggle...');
-          await sidebarToggleButton.click();
-          await page.waitForTimeout(500);
-          links = await lectureLinksLocator.all();
-          console.log(`Found ${links.length} links after toggling sidebar.`);
-        } else {
-          console.log('Sidebar already seems open or toggle button not found.');
+      const { status: statusFilter, includePages } = ListLecturesInputSchema.parse(params ?? {});
+      const sections = await context.runWithRelogin(async tab => {
+        logger.debug('Listing lecture links from sidebar...');
+        const sections = await scrapeLectureSections(tab.page, context.selectors, context.site);
+        return sections.map(section => ({
+          ...section,
+          lectures: section.lectures.filter(lecture => !statusFilter || lecture.status === statusFilter) as LectureLink[],
+        })).filter(section => section.lectures.length);
+      });
+
+      const lectures = sections.flatMap(section => section.lectures);
+      logger.info(`Found ${lectures.length} lecture links in total.`);
+
+      if (includePages && lectures.length) {
+        const courseUrl = context.currentTab().page.url();
+        for (const lecture of lectures) {
+          const slides = await context.runWithRelogin(async tab => {
+            await tab.navigate(lecture.url);
+            return await scrapeSlideLinks(tab.page, context.selectors);
+          });
+          lecture.pages = slides.map(slide => ({ index: +slide.slideNumber, id: context.site.pathId(slide.url), title: slide.title, url: slide.url }));
         }
+        await context.runWithRelogin(tab => tab.navigate(courseUrl));
       }
 
-
-      const lectureData = [];
-      for (const link of links) {
-        const href = await link.getAttribute('href');
-        const title = (await link.textContent() ?? '').trim();
-
-        if (href) {
-          const absoluteUrl = new URL(href, baseUrl).toString();
-          const urlParts = href.split('/');
-          const id = urlParts[urlParts.length - 1] || 'unknown';
-
-          lectureData.push({ id, title, url: absoluteUrl });
-        }
-      }
-
-      console.log(`Found ${lectureData.length} lecture links in total.`);
-
-      const result = ListLecturesOutputSchema.parse({ lectures: lectureData });
+      const result = ListLecturesOutputSchema.parse({ sections });
 
       return {
         content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
       };
 
     } catch (error) {
-      console.error('Failed to list lecture links:', error);
+      logger.error('Failed to list lecture links', { error });
       let errorMessage = 'An unknown error occurred';
       if (error instanceof Error)
         errorMessage = error.message;
       else
         errorMessage = String(error);
-      try {
-        const tab = context.currentTab();
-        if (tab) {
-          const page = tab.page;
-          const screenshotPath = `list_lectures_error_${Date.now()}.png`;
-          await page.screenshot({ path: screenshotPath });
-          console.log(`Screenshot saved to ${screenshotPath}`);
-        }
-      } catch (screenshotError) {
-        console.error('Failed to take screenshot:', screenshotError);
-      }
       return {
         content: [{ type: 'text', text: `Failed to list lecture links: ${errorMessage}` }],
         isError: true,
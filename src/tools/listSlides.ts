@@ -18,6 +18,10 @@ import type { Context } from '../context';
 import type { Tool, ToolResult } from './tool';
 import { z } from 'zod';
 import { zodToJsonSchema } from 'zod-to-json-schema';
+import { scrapeSlideLinks } from '../scraping';
+import { createLogger } from '../logger';
+
+const logger = createLogger('listSlides');
 
 const ListSlidesInputSchema = z.object({});
 
@@ -42,36 +46,12 @@ const listSlideLinksTool: Tool = {
 
   async handle(context: Context, params?: unknown): Promise<ToolResult> {
     try {
-      const tab = await context.ensureTab();
-      const page = tab.page;
-      const baseUrl = new URL(page.url()).origin;
-
-      console.log('Listing slide links (including titles) from page navigation...');
-
-      const slideLinksLocator = page.locator('nav[aria-label="page navigation"] ul li a');
-
-      const links = await slideLinksLocator.all();
-      const slideData = [];
-      const addedUrls = new Set<string>();
-
-      for (const link of links) {
-        const slideNumber = (await link.textContent() ?? '').trim();
-        const href = await link.getAttribute('href');
-        const title = (await link.getAttribute('title') ?? slideNumber).trim();
-        if (href && /^\d+$/.test(slideNumber)) {
-          const absoluteUrl = (href === '#') ? page.url() : new URL(href, baseUrl).toString();
-
-          if (!addedUrls.has(absoluteUrl)) {
-            slideData.push({ slideNumber, title, url: absoluteUrl });
-            addedUrls.add(absoluteUrl);
-          }
-        }
-      }
-
-      slideData.sort((a, b) => Number.parseInt(a.slideNumber, 10) - Number.parseInt(b.slideNumber, 10));
-
+      const slideData = await context.runWithRelogin(async tab => {
+        logger.debug('Listing slide links (including titles) from page navigation...');
+        return await scrapeSlideLinks(tab.page, context.selectors);
+      });
 
-      console.log(`Found ${slideData.length} unique slide links.`);
+      logger.info(`Found ${slideData.length} unique slide links.`);
 
       const result = ListSlidesOutputSchema.parse({ slides: slideData });
 
@@ -80,23 +60,12 @@ const listSlideLinksTool: Tool = {
       };
 
     } catch (error) {
-      console.error('Failed to list slide links:', error);
+      logger.error('Failed to list slide links', { error });
       let errorMessage = 'An unknown error occurred';
       if (error instanceof Error)
         errorMessage = error.message;
       else
         errorMessage = String(error);
-      try {
-        const tab = context.currentTab();
-        if (tab) {
-          const page = tab.page;
-          const screenshotPath = `list_slides_error_${Date.now()}.png`;
-          await page.screenshot({ path: screenshotPath });
-          console.log(`Screenshot saved to ${screenshotPath}`);
-        }
-      } catch (screenshotError) {
-        console.error('Failed to take screenshot:', screenshotError);
-      }
       return {
         content: [{ type: 'text', text: `Failed to list slide links: ${errorMessage}` }],
         isError: true,
@@ -22,6 +22,10 @@ import listCoursesTool from './listCourses';
 import listLectureLinksTool from './listLectures';
 import listSlideLinksTool from './listSlides';
 import commonTools from './common';
+import { createLogger } from '../logger';
+
+const logger = createLogger('navigate');
+
 const waitTool = commonTools.find(tool => tool.schema.name === 'browser_wait');
 const navigateSchema = z.object({
   url: z.string().describe('The URL to navigate to'),
@@ -36,32 +40,27 @@ const navigate: ToolFactory = captureSnapshot => ({
   },
   handle: async (context: Context, params: unknown): Promise<ToolResult> => {
     const validatedParams = navigateSchema.parse(params);
-    const currentTab = await context.ensureTab();
     const targetUrl = validatedParams.url;
-    console.log(`Navigating to ${targetUrl}, capture snapshot: ${captureSnapshot}`);
+    logger.debug(`Navigating to ${targetUrl}, capture snapshot: ${captureSnapshot}`);
 
-    const navigateResult = await currentTab.run(async tab => {
+    const navigateResult = await context.runWithRelogin(currentTab => currentTab.run(async tab => {
       await tab.navigate(targetUrl);
       if (waitTool) {
-        console.log('Waiting for 3 seconds after navigation using waitTool...');
+        logger.debug('Waiting for 3 seconds after navigation using waitTool...');
         await waitTool.handle(context, { time: 2 });
-        console.log('Wait finished.');
+        logger.debug('Wait finished.');
       } else {
-        console.warn('waitTool not found in commonTools.');
+        logger.warning('waitTool not found in commonTools.');
       }
     }, {
       status: `Navigated to ${targetUrl}`,
       captureSnapshot: captureSnapshot,
-    });
+    }));
 
-    const currentUrl = currentTab.page.url();
+    const currentUrl = context.currentTab().page.url();
     const additionalContent: ToolResult['content'] = [];
 
     try {
-      const coursesRegex = new RegExp('^https://moocs\\.iniad\\.org/courses/?$');
-      const coursePageRegex = new RegExp('^https://moocs\\.iniad\\.org/courses/\\d{4}/[A-Z0-9]+/?$');
-      const lectureOrSlidePageRegex = new RegExp('^https://moocs\\.iniad\\.org/courses/\\d{4}/[A-Z0-9]+/[A-Za-z0-9_-]+/?(\\d+)?/?$');
-
       type AutoFetchedListContent = {
         type: 'autoFetchedList';
         sourceTool: 'listCourses' | 'listLectures' | 'listSlides';
@@ -69,8 +68,8 @@ const navigate: ToolFactory = captureSnapshot => ({
         isError?: boolean;
       };
 
-      if (coursesRegex.test(currentUrl)) {
-        console.log('Detected courses page, attempting to list courses...');
+      if (context.site.isCoursesPage(currentUrl)) {
+        logger.debug('Detected courses page, attempting to list courses...');
         const coursesResult = await listCoursesTool[0].handle(context);
         const listContent: AutoFetchedListContent = {
           type: 'autoFetchedList',
@@ -80,12 +79,12 @@ const navigate: ToolFactory = captureSnapshot => ({
         };
         additionalContent.push({ type: 'text', text: JSON.stringify(listContent) });
         if (!coursesResult.isError)
-          console.log('Successfully listed courses.');
+          logger.debug('Successfully listed courses.');
         else
-          console.warn('Failed to list courses or result was error.');
+          logger.warning('Failed to list courses or result was error.');
 
-      } else if (coursePageRegex.test(currentUrl)) {
-        console.log('Detected course page, attempting to list lectures...');
+      } else if (context.site.isCoursePage(currentUrl)) {
+        logger.debug('Detected course page, attempting to list lectures...');
         const lecturesResult = await listLectureLinksTool[0].handle(context);
         const listContent: AutoFetchedListContent = {
           type: 'autoFetchedList',
@@ -95,12 +94,12 @@ const navigate: ToolFactory = captureSnapshot => ({
         };
         additionalContent.push({ type: 'text', text: JSON.stringify(listContent) });
         if (!lecturesResult.isError)
-          console.log('Successfully listed lectures.');
+          logger.debug('Successfully listed lectures.');
         else
-          console.warn('Failed to list lectures or result was error.');
+          logger.warning('Failed to list lectures or result was error.');
 
-      } else if (lectureOrSlidePageRegex.test(currentUrl)) {
-        console.log('Detected lecture/slide page, attempting to list slides...');
+      } else if (context.site.isLectureOrSlidePage(currentUrl)) {
+        logger.debug('Detected lecture/slide page, attempting to list slides...');
         const slidesResult = await listSlideLinksTool[0].handle(context);
         const listContent: AutoFetchedListContent = {
           type: 'autoFetchedList',
@@ -110,12 +109,12 @@ const navigate: ToolFactory = captureSnapshot => ({
         };
         additionalContent.push({ type: 'text', text: JSON.stringify(listContent) });
         if (!slidesResult.isError)
-          console.log('Successfully listed slides.');
+          logger.debug('Successfully listed slides.');
         else
-          console.warn('Failed to list slides or result was error.');
+          logger.warning('Failed to list slides or result was error.');
       }
     } catch (error) {
-      console.error('Error during automatic list fetching after navigation:', error);
+      logger.error('Error during automatic list fetching after navigation', { error });
       additionalContent.push({ type: 'text', text: `Error fetching lists after navigation: ${error instanceof Error ? error.message : String(error)}` } as any);
     }
 
@@ -0,0 +1,119 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+
+import { scrapeSlideLinks } from '../scraping';
+import { sanitizeForFilePath } from './utils';
+
+import type * as playwright from 'playwright';
+import type { Context } from '../context';
+import type { Tool, ToolResult } from './tool';
+
+const PdfSaveInputSchema = z.object({
+  lecture: z.boolean().default(false).describe('Save every page of the lecture open in the current tab as one PDF, without the navigation around the slides. Saves only the current page as it is shown by default.'),
+  outputDir: z.string().optional().describe('Directory to save the PDF into, absolute or relative to the workspace directory. The workspace directory by default.'),
+  fileName: z.string().optional().describe('Name of the PDF file. Defaults to a name made from the path of the page or lecture.'),
+});
+
+const pdfSave: Tool = {
+  capability: 'pdf',
+  schema: {
+    name: 'browser_pdf_save',
+    description: 'Save the current page, or all pages of the current lecture in order, as a single PDF file. Headless Chromium only, the server must be started with --headless. Returns the path of the saved file.',
+    inputSchema: zodToJsonSchema(PdfSaveInputSchema),
+  },
+
+  handle: async (context: Context, params?: unknown): Promise<ToolResult> => {
+    try {
+      const { lecture, outputDir, fileName } = PdfSaveInputSchema.parse(params ?? {});
+      if ((context.options.browserName ?? 'chromium') !== 'chromium')
+        throw new Error('Saving PDFs is only supported in Chromium.');
+      // Playwright launches headless unless told otherwise, the command line asks for a headed browser without --headless.
+      if (!context.options.cdpEndpoint && context.options.launchOptions?.headless === false)
+        throw new Error('Saving PDFs only works in a headless browser. Restart the server with --headless to save PDFs.');
+
+      const { url, slides } = await context.runWithRelogin(async tab => ({
+        url: tab.page.url(),
+        slides: lecture ? await scrapeSlideLinks(tab.page, context.selectors) : [],
+      }));
+      const urls = slides.length ? slides.map(slide => slide.url) : [url];
+      const name = fileName ?? `${sanitizeForFilePath(context.site.pathId(lecture ? urls[0].replace(/\/\d+\/?$/, '') : url)) || 'page'}.pdf`;
+      const file = path.resolve(context.workspaceDir(), outputDir ?? '', name.endsWith('.pdf') ? name : `${name}.pdf`);
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+
+      if (lecture)
+        await saveLecturePdf(context, urls, file);
+      else
+        await context.currentTab().page.pdf({ path: file, printBackground: true });
+
+      return {
+        content: [{ type: 'text', text: `Saved ${urls.length === 1 ? '1 page' : `${urls.length} pages`} as PDF to ${file}` }],
+      };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: `Failed to save PDF: ${error instanceof Error ? error.message : String(error)}` }],
+        isError: true,
+      };
+    }
+  },
+};
+
+/**
+ * Collects the content of the pages in a separate tab, puts it into the
+ * first page one after another, each starting on a new sheet, and prints that.
+ * The combined document stays on the MOOCs origin, so that the site styles
+ * apply and images load with the session cookies.
+ */
+async function saveLecturePdf(context: Context, urls: string[], file: string) {
+  const page = await context.currentTab().page.context().newPage();
+  try {
+    const contents: string[] = [];
+    for (const url of urls) {
+      await page.goto(url, { waitUntil: 'domcontentloaded' });
+      contents.push(await readContent(page, context.selectors.lecture.content));
+    }
+    await page.goto(urls[0], { waitUntil: 'domcontentloaded' });
+    await page.evaluate(contents => {
+      const sheets = contents.map(content => {
+        const sheet = document.createElement('div');
+        sheet.style.breakAfter = 'page';
+        sheet.innerHTML = content;
+        return sheet;
+      });
+      document.body.replaceChildren(...sheets);
+    }, contents);
+    await page.waitForFunction(() => [...document.images].every(image => image.complete), undefined, { timeout: 10000 }).catch(() => {});
+    await page.pdf({ path: file, printBackground: true });
+  } finally {
+    await page.close();
+  }
+}
+
+async function readContent(page: playwright.Page, contentSelector: string): Promise<string> {
+  const content = page.locator(contentSelector).first();
+  if (await content.count())
+    return await content.evaluate(element => element.outerHTML);
+  return await page.locator('body').evaluate(element => element.innerHTML);
+}
+
+export default [
+  pdfSave,
+];
@@ -0,0 +1,84 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+
+import type { Context } from '../context';
+import type { Tool, ToolResult } from './tool';
+
+const ListProfilesInputSchema = z.object({});
+
+const ProfileSchema = z.object({
+  name: z.string().describe('The name of the profile.'),
+  current: z.boolean().describe('Whether this profile is the active one.'),
+  userDataDir: z.string().describe('The browser user data directory of the profile.'),
+  storageState: z.string().optional().describe('The file the login session of the profile is saved to.'),
+});
+
+const ListProfilesOutputSchema = z.object({
+  profiles: z.array(ProfileSchema).describe('The account profiles the server can switch between.'),
+});
+
+const listProfiles: Tool = {
+  capability: 'core',
+  schema: {
+    name: 'moocs_list_profiles',
+    description: 'Lists the INIAD account profiles declared in the server config and which one is active. Returns a JSON string representing an object with a "profiles" array.',
+    inputSchema: zodToJsonSchema(ListProfilesInputSchema),
+  },
+
+  handle: async (context: Context): Promise<ToolResult> => {
+    const current = context.currentProfile();
+    const result = ListProfilesOutputSchema.parse({
+      profiles: context.profiles().map(profile => ({
+        name: profile.name,
+        current: profile.name === current.name,
+        userDataDir: profile.userDataDir,
+        storageState: profile.storageState,
+      })),
+    });
+    return {
+      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+    };
+  },
+};
+
+const SwitchProfileInputSchema = z.object({
+  name: z.string().describe('The name of the profile to switch to, as returned by moocs_list_profiles.'),
+});
+
+const switchProfile: Tool = {
+  capability: 'core',
+  schema: {
+    name: 'moocs_switch_profile',
+    description: 'Switches to another INIAD account profile. Closes the browser; the next tool call opens it again with the user data directory, saved session and credentials of the selected profile.',
+    inputSchema: zodToJsonSchema(SwitchProfileInputSchema),
+  },
+
+  handle: async (context: Context, params?: Record<string, any>): Promise<ToolResult> => {
+    const { name } = SwitchProfileInputSchema.parse(params);
+    await context.selectProfile(name);
+    return {
+      content: [{ type: 'text', text: `Switched to profile "${name}"` }],
+    };
+  },
+};
+
+export default [
+  listProfiles,
+  switchProfile,
+];
@@ -0,0 +1,114 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+
+import { readPageAsMarkdown } from '../markdown';
+import { scrapeSlideLinks } from '../scraping';
+
+import type { Context } from '../context';
+import type { Tool, ToolResult } from './tool';
+
+const ReadSlideInputSchema = z.object({
+  url: z.string().url().optional().describe('URL of the slide page to read. Reads the page open in the current tab by default.'),
+});
+
+const ReadLectureInputSchema = z.object({
+  url: z.string().url().optional().describe('URL of the lecture or of any of its pages. Reads the lecture open in the current tab by default.'),
+  maxPages: z.number().int().positive().optional().describe('Stop after reading this many pages. All pages by default.'),
+});
+
+async function readSlide(context: Context, url?: string) {
+  return await context.runWithRelogin(async tab => {
+    if (url)
+      await tab.navigate(url);
+    return {
+      url: tab.page.url(),
+      markdown: await readPageAsMarkdown(tab.page, context.selectors.lecture.content),
+    };
+  });
+}
+
+const readSlideTool: Tool = {
+  capability: 'core',
+  schema: {
+    name: 'readSlide',
+    description: 'Reads the content of a slide page as Markdown: headings, paragraphs, lists, tables, code blocks, links and the alt text of images. The text of embedded slides (e.g. Google Slides) is included in place, embedded PDFs are linked. Much smaller than a snapshot, use it to read lecture material.',
+    inputSchema: zodToJsonSchema(ReadSlideInputSchema),
+  },
+
+  handle: async (context: Context, params?: unknown): Promise<ToolResult> => {
+    try {
+      const { url } = ReadSlideInputSchema.parse(params ?? {});
+      const slide = await readSlide(context, url);
+      return {
+        content: [{ type: 'text', text: `<!-- ${slide.url} -->\n\n${slide.markdown}` }],
+      };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: `Failed to read slide: ${error instanceof Error ? error.message : String(error)}` }],
+        isError: true,
+      };
+    }
+  },
+};
+
+const readLectureTool: Tool = {
+  capability: 'core',
+  schema: {
+    name: 'readLecture',
+    description: 'Reads every page of a lecture in order, like readSlide, and returns them as one Markdown document with the pages separated by horizontal rules. Opens each page in the current tab.',
+    inputSchema: zodToJsonSchema(ReadLectureInputSchema),
+  },
+
+  handle: async (context: Context, params?: unknown): Promise<ToolResult> => {
+    try {
+      const { url, maxPages } = ReadLectureInputSchema.parse(params ?? {});
+      const slides = await context.runWithRelogin(async tab => {
+        if (url)
+          await tab.navigate(url);
+        return await scrapeSlideLinks(tab.page, context.selectors);
+      });
+
+      // A lecture with a single page has no page navigation.
+      const pages = slides.length ? slides : [{ slideNumber: '1', title: '', url: context.currentTab().page.url() }];
+      const selected = pages.slice(0, maxPages);
+      const sections: string[] = [];
+      for (const page of selected) {
+        const slide = await readSlide(context, page.url);
+        const title = page.title && page.title !== page.slideNumber ? `: ${page.title}` : '';
+        sections.push(`<!-- Page ${page.slideNumber}/${pages.length}${title} (${slide.url}) -->\n\n${slide.markdown}`);
+      }
+      if (selected.length < pages.length)
+        sections.push(`<!-- Stopped after ${selected.length} of ${pages.length} pages. -->`);
+
+      return {
+        content: [{ type: 'text', text: sections.join('\n\n---\n\n') }],
+      };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: `Failed to read lecture: ${error instanceof Error ? error.message : String(error)}` }],
+        isError: true,
+      };
+    }
+  },
+};
+
+export default [
+  readSlideTool,
+  readLectureTool,
+];
@@ -0,0 +1,194 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { z } from 'zod';
+import zodToJsonSchema from 'zod-to-json-schema';
+
+import { ensureNotSubmitting } from './utils';
+
+import type * as playwright from 'playwright';
+import type { ImageContent } from '@modelcontextprotocol/sdk/types';
+import type { Tool } from './tool';
+
+export async function captureScreenshot(page: playwright.Page, fullPage?: boolean): Promise<ImageContent> {
+  const screenshot = await page.screenshot({ type: 'jpeg', quality: 50, scale: 'css', fullPage, timeout: 10000 });
+  return {
+    type: 'image',
+    data: screenshot.toString('base64'),
+    mimeType: 'image/jpeg',
+  };
+}
+
+const screenshotSchema = z.object({
+  fullPage: z.boolean().optional().describe('Capture the whole scrollable page instead of the viewport, e.g. to see all of a long slide.'),
+});
+
+const screenshot: Tool = {
+  capability: 'core',
+  schema: {
+    name: 'browser_screenshot',
+    description: 'Take a screenshot of the current page',
+    inputSchema: zodToJsonSchema(screenshotSchema),
+  },
+
+  handle: async (context, params) => {
+    const validatedParams = screenshotSchema.parse(params ?? {});
+    return {
+      content: [await captureScreenshot(context.currentTab().page, validatedParams.fullPage)],
+    };
+  },
+};
+
+const elementSchema = z.object({
+  element: z.string().describe('Human-readable element description used to obtain permission to interact with the element'),
+});
+
+const moveMouseSchema = elementSchema.extend({
+  x: z.number().describe('X coordinate'),
+  y: z.number().describe('Y coordinate'),
+});
+
+const moveMouse: Tool = {
+  capability: 'core',
+  schema: {
+    name: 'browser_screen_move_mouse',
+    description: 'Move mouse to a given position',
+    inputSchema: zodToJsonSchema(moveMouseSchema),
+  },
+
+  handle: async (context, params) => {
+    const validatedParams = moveMouseSchema.parse(params);
+    return await context.currentTab().run(async tab => {
+      await tab.page.mouse.move(validatedParams.x, validatedParams.y);
+    }, {
+      status: `Moved mouse to (${validatedParams.x}, ${validatedParams.y})`,
+    });
+  },
+};
+
+const clickSchema = elementSchema.extend({
+  x: z.number().describe('X coordinate'),
+  y: z.number().describe('Y coordinate'),
+});
+
+const click: Tool = {
+  capability: 'core',
+  schema: {
+    name: 'browser_screen_click',
+    description: 'Click left mouse button at a given position of the last screenshot',
+    inputSchema: zodToJsonSchema(clickSchema),
+  },
+
+  handle: async (context, params) => {
+    const validatedParams = clickSchema.parse(params);
+    const { x, y } = validatedParams;
+    const page = context.currentTab().page;
+    await ensureNotSubmitting(context, () => page.evaluateHandle(point => document.elementFromPoint(point.x, point.y), { x, y }), 'click', `Clicking "${validatedParams.element}"`);
+    return await context.currentTab().runAndWait(async tab => {
+      await tab.page.mouse.move(validatedParams.x, validatedParams.y);
+      await tab.page.mouse.down();
+      await tab.page.mouse.up();
+    }, {
+      status: `Clicked "${validatedParams.element}" at (${validatedParams.x}, ${validatedParams.y})`,
+    });
+  },
+};
+
+const dragSchema = elementSchema.extend({
+  startX: z.number().describe('Start X coordinate'),
+  startY: z.number().describe('Start Y coordinate'),
+  endX: z.number().describe('End X coordinate'),
+  endY: z.number().describe('End Y coordinate'),
+});
+
+const drag: Tool = {
+  capability: 'core',
+  schema: {
+    name: 'browser_screen_drag',
+    description: 'Drag left mouse button from one position of the last screenshot to another',
+    inputSchema: zodToJsonSchema(dragSchema),
+  },
+
+  handle: async (context, params) => {
+    const validatedParams = dragSchema.parse(params);
+    return await context.currentTab().runAndWait(async tab => {
+      await tab.page.mouse.move(validatedParams.startX, validatedParams.startY);
+      await tab.page.mouse.down();
+      await tab.page.mouse.move(validatedParams.endX, validatedParams.endY);
+      await tab.page.mouse.up();
+    }, {
+      status: `Dragged "${validatedParams.element}" from (${validatedParams.startX}, ${validatedParams.startY}) to (${validatedParams.endX}, ${validatedParams.endY})`,
+    });
+  },
+};
+
+const typeSchema = z.object({
+  text: z.string().describe('Text to type into the focused element'),
+  submit: z.boolean().optional().describe('Whether to submit entered text (press Enter after)'),
+});
+
+const type: Tool = {
+  capability: 'core',
+  schema: {
+    name: 'browser_screen_type',
+    description: 'Type text into the focused element, e.g. after clicking it with browser_screen_click',
+    inputSchema: zodToJsonSchema(typeSchema),
+  },
+
+  handle: async (context, params) => {
+    const validatedParams = typeSchema.parse(params);
+    if (validatedParams.submit) {
+      const page = context.currentTab().page;
+      await ensureNotSubmitting(context, () => page.evaluateHandle(() => document.activeElement), 'enter', 'Pressing Enter');
+    }
+    return await context.currentTab().runAndWait(async tab => {
+      await tab.page.keyboard.type(validatedParams.text);
+      if (validatedParams.submit)
+        await tab.page.keyboard.press('Enter');
+    }, {
+      status: `Typed "${validatedParams.text}"`,
+    });
+  },
+};
+
+/**
+ * Makes the tool attach a screenshot of the page it ends up on to its result,
+ * so that pages the aria snapshot cannot convey, like slides made of images,
+ * can be seen in vision mode.
+ */
+export function attachScreenshot(tool: Tool): Tool {
+  return {
+    ...tool,
+    handle: async (context, params, progress) => {
+      const result = await tool.handle(context, params, progress);
+      try {
+        const page = context.currentTab().page;
+        return { ...result, content: [...result.content, await captureScreenshot(page)] };
+      } catch (error) {
+        // The result is still useful without the screenshot, e.g. when no page is open.
+        return result;
+      }
+    },
+  };
+}
+
+export default [
+  screenshot,
+  moveMouse,
+  click,
+  drag,
+  type,
+];
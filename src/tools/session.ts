@@ -0,0 +1,108 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+
+import { isLoginPage, readNavbarUser } from '../auth';
+
+import type { Context } from '../context';
+import type { Tool, ToolResult } from './tool';
+
+const LoginStatusInputSchema = z.object({});
+
+const LoginStatusOutputSchema = z.object({
+  profile: z.string().describe('The name of the active account profile.'),
+  loggedIn: z.boolean().describe('Whether the browser is logged in to INIAD MOOCs.'),
+  userId: z.string().optional().describe('The user shown in the MOOCs navigation bar.'),
+  sessionExpiresAt: z.string().optional().describe('ISO timestamp when the MOOCs session cookie expires, if the cookie has an expiry.'),
+  sessionSavedAt: z.string().optional().describe('ISO timestamp when the session was last saved to the storage state file.'),
+});
+
+const loginStatus: Tool = {
+  capability: 'core',
+  schema: {
+    name: 'moocs_login_status',
+    description: 'Reports whether the browser is logged in to INIAD MOOCs, the user ID shown in the navigation bar and the session expiry if known. Checks the courses page in a separate tab, the current tab stays where it is. Returns a JSON string.',
+    inputSchema: zodToJsonSchema(LoginStatusInputSchema),
+  },
+
+  handle: async (context: Context): Promise<ToolResult> => {
+    const tab = await context.ensureTab();
+    const page = await tab.page.context().newPage();
+    let loggedIn: boolean;
+    let userId: string | undefined;
+    try {
+      await page.goto(context.site.coursesUrl());
+      loggedIn = context.site.isMoocsUrl(page.url()) && !await isLoginPage(page, context.site, context.selectors);
+      userId = loggedIn ? await readNavbarUser(page, context.selectors) : undefined;
+    } finally {
+      await page.close();
+    }
+
+    // Other cookies, e.g. of analytics, expire sooner than the session. Cookies without
+    // an expiry (expires === -1) end with the browser, so they tell nothing.
+    const expiries = (await tab.page.context().cookies(context.site.coursesUrl()))
+        .filter(cookie => context.site.sessionCookies.includes(cookie.name) && cookie.expires > 0)
+        .map(cookie => cookie.expires);
+    const sessionExpiresAt = loggedIn && expiries.length ? new Date(Math.min(...expiries) * 1000).toISOString() : undefined;
+    const sessionInfo = await context.session?.info();
+
+    const result = LoginStatusOutputSchema.parse({
+      profile: context.currentProfile().name,
+      loggedIn,
+      userId,
+      sessionExpiresAt,
+      sessionSavedAt: sessionInfo?.savedAt.toISOString(),
+    });
+    return {
+      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+    };
+  },
+};
+
+const LogoutInputSchema = z.object({});
+
+const logout: Tool = {
+  capability: 'core',
+  schema: {
+    name: 'moocs_logout',
+    description: 'Logs out of INIAD MOOCs by clearing all cookies and MOOCs page storage in the current browser context and removing the saved session, so that the next login can use a different account.',
+    inputSchema: zodToJsonSchema(LogoutInputSchema),
+  },
+
+  handle: async (context: Context): Promise<ToolResult> => {
+    const tab = await context.ensureTab();
+    await tab.page.context().clearCookies();
+    for (const { page } of context.tabs()) {
+      if (context.site.isMoocsUrl(page.url()))
+        await page.evaluate(() => { localStorage.clear(); sessionStorage.clear(); }).catch(() => {});
+    }
+    await context.session?.clear();
+
+    const lines = ['Logged out: cleared cookies and storage of the browser context.'];
+    if (context.session)
+      lines.push(`Removed the saved session ${context.session.storageStatePath}.`);
+    return {
+      content: [{ type: 'text', text: lines.join('\n') }],
+    };
+  },
+};
+
+export default [
+  loginStatus,
+  logout,
+];
@@ -17,6 +17,10 @@
 import { z } from 'zod';
 import zodToJsonSchema from 'zod-to-json-schema';
 
+import { ensureNotSubmitting } from './utils';
+
+import type * as playwright from 'playwright';
+import type { Tab } from '../context';
 import type { Tool } from './tool';
 
 const snapshot: Tool = {
@@ -32,6 +36,194 @@ const snapshot: Tool = {
   },
 };
 
+const elementSchema = z.object({
+  element: z.string().min(1).describe('Human-readable element description used to obtain permission to interact with the element. Include its name, or a part of it, or its role as shown in the snapshot, refs that do not fit the description are rejected'),
+  ref: z.string().describe('Exact target element reference from the page snapshot'),
+});
+
+// Words that name the exact role of an element in descriptions like "Submit button" or "送信ボタン".
+const roleWords: Record<string, string[]> = {
+  button: ['button', 'ボタン'],
+  link: ['link', 'リンク'],
+  textbox: ['textbox', 'text box', 'textarea', 'テキストボックス', '入力欄'],
+  searchbox: ['searchbox', 'search box', '検索ボックス'],
+  checkbox: ['checkbox', 'check box', 'チェックボックス'],
+  radio: ['radio', 'ラジオボタン'],
+  combobox: ['combobox', 'combo box', 'dropdown', 'drop-down', 'プルダウン'],
+  listbox: ['listbox', 'list box'],
+  option: ['option'],
+  tab: ['tab', 'タブ'],
+  heading: ['heading', '見出し'],
+  img: ['image', 'img', '画像'],
+};
+
+function namesRole(text: string, role: string): boolean {
+  // English role words count as whole words only, so that "table" does not name a tab.
+  return !!roleWords[role]?.some(word => /^[\x00-\x7f]+$/.test(word) ? new RegExp(`(^|[^a-z])${word}($|[^a-z])`).test(text) : text.includes(word));
+}
+
+/**
+ * Whether a description names the element of a snapshot line such as
+ * `button "Submit"`: it contains the accessible name or quotes a part of it,
+ * or it names the exact role. Elements without a name only match descriptions
+ * that name their role.
+ */
+function matchesDescription(element: string, description: string): boolean {
+  // Lines that YAML had to quote keep the quotes around the name escaped.
+  const match = description.replace(/\\"/g, '"').match(/^(\S+)(?:\s+"((?:\\.|[^"\\])*)")?/);
+  const role = match?.[1] ?? '';
+  const name = (match?.[2] ?? '').replace(/\\(.)/g, '$1').toLowerCase().replace(/\s+/g, ' ').trim();
+  const text = element.toLowerCase().replace(/\s+/g, ' ').trim();
+  return namesRole(text, role) || (!!name && (text.includes(name) || (text.length >= 2 && name.includes(text))));
+}
+
+/**
+ * Finds the element of the last snapshot the ref points to. Refs of older
+ * snapshots may point to other elements after the page changed, so only refs
+ * shown in the last snapshot are accepted, and only when the description of
+ * the element fits the role and name the snapshot shows for the ref.
+ */
+export function locateElement(tab: Tab, { element, ref }: z.infer<typeof elementSchema>, checkDescription = true): { locator: playwright.Locator, status: string } {
+  const snapshot = tab.lastSnapshot();
+  const description = snapshot.describe(ref);
+  if (!description)
+    throw new Error(`Ref ${ref} for "${element}" is not in the current page snapshot. Capture a new snapshot with browser_snapshot and use a ref from it.`);
+  if (checkDescription && !matchesDescription(element, description))
+    throw new Error(`Ref ${ref} is ${description}, which does not match "${element}". Check the ref in the current page snapshot, or describe the element by its role or name.`);
+  return { locator: snapshot.refLocator(ref), status: `"${element}" (${description})` };
+}
+
+const click: Tool = {
+  capability: 'core',
+  schema: {
+    name: 'browser_click',
+    description: 'Perform click on a web page',
+    inputSchema: zodToJsonSchema(elementSchema),
+  },
+
+  handle: async (context, params) => {
+    const validatedParams = elementSchema.parse(params);
+    const tab = context.currentTab();
+    const { locator, status } = locateElement(tab, validatedParams);
+    await ensureNotSubmitting(context, () => locator.elementHandle(), 'click', `Clicking ${status}`);
+    return await tab.runAndWaitWithSnapshot(async () => {
+      await locator.click();
+    }, {
+      status: `Clicked ${status}`,
+    });
+  },
+};
+
+const dragSchema = z.object({
+  startElement: z.string().min(1).describe('Human-readable source element description used to obtain the permission to interact with the element'),
+  startRef: z.string().describe('Exact source element reference from the page snapshot'),
+  endElement: z.string().min(1).describe('Human-readable target element description used to obtain the permission to interact with the element'),
+  endRef: z.string().describe('Exact target element reference from the page snapshot'),
+});
+
+const drag: Tool = {
+  capability: 'core',
+  schema: {
+    name: 'browser_drag',
+    description: 'Perform drag and drop between two elements',
+    inputSchema: zodToJsonSchema(dragSchema),
+  },
+
+  handle: async (context, params) => {
+    const validatedParams = dragSchema.parse(params);
+    const tab = context.currentTab();
+    const start = locateElement(tab, { element: validatedParams.startElement, ref: validatedParams.startRef });
+    const end = locateElement(tab, { element: validatedParams.endElement, ref: validatedParams.endRef });
+    return await tab.runAndWaitWithSnapshot(async () => {
+      await start.locator.dragTo(end.locator);
+    }, {
+      status: `Dragged ${start.status} to ${end.status}`,
+    });
+  },
+};
+
+const hover: Tool = {
+  capability: 'core',
+  schema: {
+    name: 'browser_hover',
+    description: 'Hover over element on page',
+    inputSchema: zodToJsonSchema(elementSchema),
+  },
+
+  handle: async (context, params) => {
+    const validatedParams = elementSchema.parse(params);
+    const tab = context.currentTab();
+    const { locator, status } = locateElement(tab, validatedParams);
+    return await tab.runAndWaitWithSnapshot(async () => {
+      await locator.hover();
+    }, {
+      status: `Hovered over ${status}`,
+    });
+  },
+};
+
+const typeSchema = elementSchema.extend({
+  text: z.string().describe('Text to type into the element'),
+  submit: z.boolean().optional().describe('Whether to submit entered text (press Enter after)'),
+  slowly: z.boolean().optional().describe('Whether to type one character at a time. Useful for triggering key handlers in the page. By default entire text is filled in at once.'),
+});
+
+const type: Tool = {
+  capability: 'core',
+  schema: {
+    name: 'browser_type',
+    description: 'Type text into editable element',
+    inputSchema: zodToJsonSchema(typeSchema),
+  },
+
+  handle: async (context, params) => {
+    const validatedParams = typeSchema.parse(params);
+    const tab = context.currentTab();
+    const { locator, status } = locateElement(tab, validatedParams);
+    if (validatedParams.submit)
+      await ensureNotSubmitting(context, () => locator.elementHandle(), 'enter', `Pressing Enter in ${status}`);
+    return await tab.runAndWaitWithSnapshot(async () => {
+      if (validatedParams.slowly)
+        await locator.pressSequentially(validatedParams.text);
+      else
+        await locator.fill(validatedParams.text);
+      if (validatedParams.submit)
+        await locator.press('Enter');
+    }, {
+      status: `Typed "${validatedParams.text}" into ${status}`,
+    });
+  },
+};
+
+const selectOptionSchema = elementSchema.extend({
+  values: z.array(z.string()).describe('Array of values to select in the dropdown. This can be a single value or multiple values.'),
+});
+
+const selectOption: Tool = {
+  capability: 'core',
+  schema: {
+    name: 'browser_select_option',
+    description: 'Select an option in a dropdown',
+    inputSchema: zodToJsonSchema(selectOptionSchema),
+  },
+
+  handle: async (context, params) => {
+    const validatedParams = selectOptionSchema.parse(params);
+    const tab = context.currentTab();
+    const { locator, status } = locateElement(tab, validatedParams);
+    return await tab.runAndWaitWithSnapshot(async () => {
+      await locator.selectOption(validatedParams.values);
+    }, {
+      status: `Selected option in ${status}`,
+    });
+  },
+};
+
 export default [
   snapshot,
+  click,
+  drag,
+  hover,
+  type,
+  selectOption,
 ];
@@ -14,11 +14,21 @@
  * limitations under the License.
  */
 
+import path from 'path';
+
 import { z } from 'zod';
 import zodToJsonSchema from 'zod-to-json-schema';
+import { isLoginPage } from '../auth';
+import { createLogger } from '../logger';
+import { describeControl } from './assignment';
+import { captureScreenshot } from './screen';
+import { locateElement } from './snapshot';
+import type * as playwright from 'playwright';
 import type { Tool, ToolResult } from './tool';
 import type { Context } from '../context';
 
+const logger = createLogger('submitAssignment');
+
 const actionSchema = z.enum(['type', 'click', 'check', 'uncheck', 'select', 'upload']);
 
 const operationSchema = z.object({
@@ -36,13 +46,145 @@ const submitAssignmentSchema = z.object({
   operations: z.array(operationSchema).describe('A sequence of input operations to perform'),
   submitButtonRef: z.string().describe('Exact reference for the submit button element'),
   submitButtonElement: z.string().optional().describe('Human-readable description for the submit button (used for status reporting)'),
+  dryRun: z.boolean().optional().describe('Perform the input operations but stop before clicking the submit button. Returns a screenshot and a field-by-field summary of what would be submitted, for the student to review.'),
 });
 
+type Operation = z.infer<typeof operationSchema>;
+
+const performedLabels: Record<Operation['action'], string> = {
+  type: 'typed',
+  click: 'clicked',
+  check: 'checked',
+  uncheck: 'unchecked',
+  select: 'selected',
+  upload: 'uploaded',
+};
+
+/**
+ * Reads back the field an operation was performed on, as it would be submitted.
+ */
+async function summarizeField(locator: playwright.Locator, operation: Operation, status: string): Promise<string> {
+  const info = await locator.evaluate(describeControl).catch(() => undefined);
+  const files = operation.action === 'upload' ? [operation.value ?? []].flat().map(file => path.basename(file)) : [];
+  let value: string;
+  switch (info?.kind) {
+    case 'text':
+    case 'textarea':
+      value = JSON.stringify(info.values[0]);
+      break;
+    case 'radio':
+    case 'checkbox':
+      value = `"${info.label}" ${info.selected ? 'checked' : 'not checked'}`;
+      break;
+    case 'select':
+      value = info.values.map(value => JSON.stringify(value)).join(', ') || '(nothing selected)';
+      break;
+    case 'file':
+      value = (info.values.length ? info.values : files).join(', ') || '(no file)';
+      break;
+    default:
+      value = operation.action === 'upload' ? files.join(', ') : performedLabels[operation.action];
+  }
+  return `- ${status}: ${value}`;
+}
+
+type SubmittedField = {
+  status: string;
+  kind: ReturnType<typeof describeControl>['kind'];
+  name: string;
+  /**
+   * Value attribute of a radio button or checkbox, which tells the choices of a question apart.
+   */
+  choice: string;
+  values: string[];
+};
+
+/**
+ * Records what a field holds right before submitting, to compare it with
+ * what the page shows after reloading. Clicked radio buttons and checkboxes
+ * are recorded like checked ones. Returns why the element cannot be verified
+ * instead when it is no answer field or cannot be found again after a reload.
+ */
+async function readSubmittedField(locator: playwright.Locator, operation: Operation, status: string): Promise<SubmittedField | string> {
+  const info = await locator.evaluate(describeControl).catch(() => undefined);
+  if (!info)
+    return `- ${status}: not verified, the element could not be read`;
+  if (info.kind === 'submit' || info.kind === 'other')
+    return `- ${status}: not verified, ${operation.action === 'click' ? 'the clicked element' : 'the element'} is not an answer field`;
+  if (!info.name)
+    return `- ${status}: not verified, the field has no name to find it by after reloading`;
+  const isChoice = info.kind === 'radio' || info.kind === 'checkbox';
+  let values = isChoice ? [info.selected ? 'checked' : 'not checked'] : info.values;
+  if (info.kind === 'file' && !values.length)
+    values = [operation.value ?? []].flat().map(file => path.basename(file));
+  return { status, kind: info.kind, name: info.name, choice: isChoice ? info.value : '', values };
+}
+
+/**
+ * Runs in the page. Returns the text around a file input that belongs to no
+ * other control, where problem pages list the files saved for the question.
+ */
+function savedFilesText(element: Element): string {
+  const controlSelector = 'input:not([type="hidden"]), textarea, select, button';
+  let top = element;
+  for (let ancestor = element.parentElement; ancestor && ancestor !== element.ownerDocument.body; ancestor = ancestor.parentElement) {
+    if ([...ancestor.querySelectorAll(controlSelector)].some(control => control !== element))
+      break;
+    top = ancestor;
+  }
+  return (top.textContent ?? '').replace(/\s+/g, ' ');
+}
+
+/**
+ * Reloads the page and compares every submitted field with the answer the
+ * page shows as saved. File inputs are empty after a reload, so uploads are
+ * verified by the file names listed next to the input.
+ */
+async function verifySavedFields(context: Context, page: playwright.Page, fields: SubmittedField[]): Promise<{ lines: string[], mismatch: boolean }> {
+  await page.reload();
+  // The answers have been sent already, so an expired session must not turn into an error that invites submitting again.
+  if (await isLoginPage(page, context.site, context.selectors))
+    return { lines: fields.map(field => `- ${field.status}: not verified (session expired)`), mismatch: false };
+  const lines: string[] = [];
+  let mismatch = false;
+  for (const field of fields) {
+    const selector = `[name=${JSON.stringify(field.name)}]${field.choice ? `[value=${JSON.stringify(field.choice)}]` : ''}`;
+    const locator = page.locator(selector).first();
+    let saved: string[] = [];
+    if (await locator.count()) {
+      const info = await locator.evaluate(describeControl);
+      if (field.kind === 'radio' || field.kind === 'checkbox') {
+        saved = [info.selected ? 'checked' : 'not checked'];
+      } else if (field.kind === 'file') {
+        const text = await locator.evaluate(savedFilesText);
+        saved = field.values.filter(file => text.includes(file));
+      } else {
+        saved = info.values;
+      }
+    }
+    const format = (values: string[]) => values.length ? values.map(value => JSON.stringify(value)).join(', ') : '(nothing)';
+    if (saved.length === field.values.length && saved.every((value, index) => value === field.values[index])) {
+      lines.push(`- ${field.status}: verified ${format(saved)}`);
+    } else {
+      mismatch = true;
+      lines.push(`- ${field.status}: mismatch, submitted ${format(field.values)} but the page shows ${format(saved)}`);
+    }
+  }
+  return { lines, mismatch };
+}
+
+type Submission = {
+  performedActions: string[];
+  fields: SubmittedField[];
+  unverifiable: string[];
+  dialogErrorDetected: boolean;
+};
+
 const submitAssignment: Tool = {
   capability: 'core',
   schema: {
     name: 'submit_assignment',
-    description: 'Specifically designed for submitting assignments on platforms like INIAD MOOCs. Performs a sequence of form interactions (typing, file uploads, etc.) and clicks the final submit button, based on a pre-existing page snapshot. Use this tool for submitting assignments instead of individual click/type/upload actions. Handles file uploads internally. Does not handle page navigation or confirm alerts.',
+    description: 'Specifically designed for submitting assignments on platforms like INIAD MOOCs. Performs a sequence of form interactions (typing, file uploads, etc.) and clicks the final submit button, based on a pre-existing page snapshot. Use this tool for submitting assignments instead of individual click/type/upload actions. Handles file uploads internally. Does not handle page navigation or confirm alerts. Use dryRun to let the student review the answers before submitting them.',
     inputSchema: zodToJsonSchema(submitAssignmentSchema),
   },
 
@@ -52,120 +194,182 @@ const submitAssignment: Tool = {
     const page = tab.page;
 
     try {
-      const snapshot = tab.lastSnapshot();
-      if (!snapshot)
-        throw new Error('No snapshot available. Please run browser_snapshot first.');
-
-
-      const performedActions: string[] = [];
-
-      for (const operation of validatedParams.operations) {
-        const locator = snapshot.refLocator(operation.ref);
-        const elementName = operation.element || `element with ref ${operation.ref}`;
-
-        switch (operation.action) {
-          case 'type':
-            if (typeof operation.value !== 'string')
-              throw new Error(`Invalid value type for 'type' action: expected string, got ${typeof operation.value}`);
-
-            await locator.fill(operation.value);
-            performedActions.push(`Typed "${operation.value}" into "${elementName}"`);
-            break;
-          case 'click':
-            await locator.click();
-            performedActions.push(`Clicked "${elementName}"`);
-            break;
-          case 'check':
-            await locator.check();
-            performedActions.push(`Checked "${elementName}"`);
-            break;
-          case 'uncheck':
-            await locator.uncheck();
-            performedActions.push(`Unchecked "${elementName}"`);
-            break;
-          case 'select':
-            if (!Array.isArray(operation.value) && typeof operation.value !== 'string')
-              throw new Error(`Invalid value type for 'select' action: expected string or array of strings, got ${typeof operation.value}`);
-
-            const selectValues = Array.isArray(operation.value) ? operation.value : [operation.value];
-            await locator.selectOption(selectValues);
-            performedActions.push(`Selected option(s) in "${elementName}"`);
-            break;
-          case 'upload':
-            if (!operation.value || (typeof operation.value !== 'string' && !Array.isArray(operation.value)))
-              throw new Error(`Invalid value type for 'upload' action: expected string or array of strings (file paths), got ${typeof operation.value}`);
-
-            const filePaths = Array.isArray(operation.value) ? operation.value : [operation.value];
-            if (filePaths.some(p => !p.startsWith('/')))
-              console.warn(`Potential relative path detected in file upload: ${filePaths.join(', ')}. Assuming absolute paths.`);
-
-
-            const fileChooserPromise = page.waitForEvent('filechooser', { timeout: 5000 })
-                .catch(() => { throw new Error(`Timeout: File chooser did not appear for "${elementName}" within 5000ms after clicking.`); });
-
-            await locator.click();
-            performedActions.push(`Clicked upload trigger "${elementName}"`);
-
-            const fileChooser = await fileChooserPromise;
-            await fileChooser.setFiles(filePaths);
-
-
-            performedActions.push(`Selected file(s) for "${elementName}": ${filePaths.join(', ')}`);
-            break;
-          default:
-            throw new Error(`Unsupported action: ${operation.action}`);
+      // Replaying the operations after a re-login is not possible since the snapshot refs are gone.
+      const outcome = await context.runWithRelogin(async (): Promise<ToolResult | Submission> => {
+        // Check every ref up front, so that a stale one does not leave the form half filled.
+        const submitButtonName = validatedParams.submitButtonElement || `Submit button (ref: ${validatedParams.submitButtonRef})`;
+        const targets = validatedParams.operations.map(operation => locateElement(tab, { element: operation.element || `element with ref ${operation.ref}`, ref: operation.ref }, !!operation.element));
+        const submitTarget = locateElement(tab, { element: submitButtonName, ref: validatedParams.submitButtonRef }, !!validatedParams.submitButtonElement);
+        for (const { locator, status } of [...targets, submitTarget]) {
+          if (!await locator.count())
+            throw new Error(`${status} is no longer on the page. Capture a new snapshot with browser_snapshot and use a ref from it.`);
         }
-      }
 
-      const submitButtonName = validatedParams.submitButtonElement || `Submit button (ref: ${validatedParams.submitButtonRef})`;
-      const submitLocator = snapshot.refLocator(validatedParams.submitButtonRef);
-      await submitLocator.click();
-      performedActions.push(`Clicked "${submitButtonName}"`);
+        const performedActions: string[] = [];
 
-      // Wait for dialog to appear using browser_wait
-      await page.waitForTimeout(1000);
+        for (const [index, operation] of validatedParams.operations.entries()) {
+          const locator = targets[index].locator;
+          const elementName = operation.element || `element with ref ${operation.ref}`;
 
-      // Automatically handle dialog that may appear after clicking submit
-      let dialogErrorDetected = false;
-      const pendingDialog: any = (tab as any).pendingDialog;
-      if (pendingDialog) {
-        try {
-          const dialogMessage = pendingDialog.message();
+          switch (operation.action) {
+            case 'type':
+              if (typeof operation.value !== 'string')
+                throw new Error(`Invalid value type for 'type' action: expected string, got ${typeof operation.value}`);
 
-          // Expected messages (Japanese and English lines may be separated by newline)
-          const expectedJP = 'すべての回答を保存しました。';
-          const expectedEN = 'All your answers have been saved.';
+              await locator.fill(operation.value);
+              performedActions.push(`Typed "${operation.value}" into "${elementName}"`);
+              break;
+            case 'click':
+              await locator.click();
+              performedActions.push(`Clicked "${elementName}"`);
+              break;
+            case 'check':
+              await locator.check();
+              performedActions.push(`Checked "${elementName}"`);
+              break;
+            case 'uncheck':
+              await locator.uncheck();
+              performedActions.push(`Unchecked "${elementName}"`);
+              break;
+            case 'select':
+              if (!Array.isArray(operation.value) && typeof operation.value !== 'string')
+                throw new Error(`Invalid value type for 'select' action: expected string or array of strings, got ${typeof operation.value}`);
 
-          const normalizedMessage = dialogMessage.trim();
+              const selectValues = Array.isArray(operation.value) ? operation.value : [operation.value];
+              await locator.selectOption(selectValues);
+              performedActions.push(`Selected option(s) in "${elementName}"`);
+              break;
+            case 'upload':
+              if (!operation.value || (typeof operation.value !== 'string' && !Array.isArray(operation.value)))
+                throw new Error(`Invalid value type for 'upload' action: expected string or array of strings (file paths), got ${typeof operation.value}`);
 
-          if (!normalizedMessage.includes(expectedJP) && !normalizedMessage.includes(expectedEN)) {
-            dialogErrorDetected = true;
-            performedActions.push(`Unexpected dialog message detected: "${dialogMessage}"`);
+              const filePaths = Array.isArray(operation.value) ? operation.value : [operation.value];
+              if (filePaths.some(p => !p.startsWith('/')))
+                logger.warning(`Potential relative path detected in file upload: ${filePaths.join(', ')}. Assuming absolute paths.`);
+
+
+              const fileChooserPromise = page.waitForEvent('filechooser', { timeout: 5000 })
+                  .catch(() => { throw new Error(`Timeout: File chooser did not appear for "${elementName}" within 5000ms after clicking.`); });
+
+              await locator.click();
+              performedActions.push(`Clicked upload trigger "${elementName}"`);
+
+              const fileChooser = await fileChooserPromise;
+              await fileChooser.setFiles(filePaths);
+
+
+              performedActions.push(`Selected file(s) for "${elementName}": ${filePaths.join(', ')}`);
+              break;
+            default:
+              throw new Error(`Unsupported action: ${operation.action}`);
           }
+        }
+
+        const dryRun = validatedParams.dryRun || !!context.options.readOnly;
+        if (dryRun) {
+          const fields: string[] = [];
+          for (const [index, operation] of validatedParams.operations.entries())
+            fields.push(await summarizeField(targets[index].locator, operation, targets[index].status));
+          const enabled = await submitTarget.locator.isEnabled();
+          const reason = validatedParams.dryRun ? 'Dry run' : 'Dry run (the server is read-only)';
+          const lines = [
+            `${reason}: performed ${validatedParams.operations.length} input operations and stopped before clicking ${submitTarget.status}. Nothing was submitted.`,
+            ...performedActions.map(action => `- ${action}`),
+            '',
+            'Fields as they would be submitted:',
+            ...fields,
+            '',
+            enabled ? 'The submit button is enabled.' : 'The submit button is disabled, submitting would fail.',
+          ];
+          return {
+            content: [
+              { type: 'text', text: lines.join('\n') },
+              await captureScreenshot(page, true),
+            ],
+          };
+        }
+
+        const submittedFields = new Map<string, SubmittedField>();
+        const unverifiable: string[] = [];
+        for (const [index, operation] of validatedParams.operations.entries()) {
+          const field = await readSubmittedField(targets[index].locator, operation, targets[index].status);
+          if (typeof field === 'string')
+            unverifiable.push(field);
+          else
+            submittedFields.set(`${field.name}\n${field.choice}`, field);
+        }
+
+        const submitLocator = submitTarget.locator;
+        // The alert blocks the page, so do not wait for the navigation it holds up.
+        await submitLocator.click({ noWaitAfter: true });
+        performedActions.push(`Clicked "${submitButtonName}"`);
+
+        // The confirmation alert only shows up once the answers have been saved on the server.
+        if (!tab.pendingDialog)
+          await page.waitForEvent('dialog', { timeout: 5000 }).catch(() => {});
+
+        // Automatically handle dialog that may appear after clicking submit
+        let dialogErrorDetected = false;
+        const pendingDialog = tab.pendingDialog;
+        if (pendingDialog) {
+          try {
+            const dialogMessage = pendingDialog.message();
+
+            // Expected messages (Japanese and English lines may be separated by newline)
+            const expectedJP = 'すべての回答を保存しました。';
+            const expectedEN = 'All your answers have been saved.';
+
+            const normalizedMessage = dialogMessage.trim();
 
-          await pendingDialog.accept();
-          performedActions.push(`Dialog "${pendingDialog.type()}" with message "${dialogMessage}" accepted automatically`);
-        } catch (dialogError) {
+            if (!normalizedMessage.includes(expectedJP) && !normalizedMessage.includes(expectedEN)) {
+              dialogErrorDetected = true;
+              performedActions.push(`Unexpected dialog message detected: "${dialogMessage}"`);
+            }
+
+            await pendingDialog.accept();
+            performedActions.push(`Dialog "${pendingDialog.type()}" with message "${dialogMessage}" accepted automatically`);
+          } catch (dialogError) {
+            dialogErrorDetected = true;
+            performedActions.push(`Failed to automatically handle dialog: ${dialogError}`);
+          } finally {
+            tab.pendingDialog = undefined;
+          }
+        } else {
+          // No dialog appeared; treat as error
           dialogErrorDetected = true;
-          performedActions.push(`Failed to automatically handle dialog: ${dialogError}`);
-        } finally {
-          (tab as any).pendingDialog = undefined;
+          performedActions.push('Error: No confirmation dialog appeared after clicking submit');
         }
-      } else {
-        // No dialog appeared; treat as error
-        dialogErrorDetected = true;
-        performedActions.push('Error: No confirmation dialog appeared after clicking submit');
+
+        return { performedActions, fields: [...submittedFields.values()], unverifiable, dialogErrorDetected };
+      }, { retry: false });
+      if ('content' in outcome)
+        return outcome;
+
+      // An alert is no proof that the answers were saved as sent, read them back.
+      // This runs outside runWithRelogin, whose retry error would ask for the answers to be submitted again.
+      let verification: string[];
+      let mismatchDetected = false;
+      try {
+        const { lines, mismatch } = await verifySavedFields(context, page, outcome.fields);
+        verification = [...lines, ...outcome.unverifiable];
+        if (!verification.length)
+          verification.push('- No fields to verify');
+        mismatchDetected = mismatch;
+      } catch (error) {
+        mismatchDetected = true;
+        verification = [`- Could not read back the saved answers: ${error instanceof Error ? error.message : String(error)}`];
       }
 
       const inputActionCount = validatedParams.operations.length;
-      const statusMessage = `Successfully performed ${inputActionCount} input operations, clicked the submit button, and handled any dialogs if present:\n- ${performedActions.join('\n- ')}`;
+      const statusMessage = `Successfully performed ${inputActionCount} input operations, clicked the submit button, and handled any dialogs if present:\n- ${outcome.performedActions.join('\n- ')}`;
+      const verificationMessage = `Saved answers after reloading the page:\n${verification.join('\n')}`;
       return {
-        content: [{ type: 'text', text: statusMessage }],
-        isError: dialogErrorDetected,
+        content: [{ type: 'text', text: `${statusMessage}\n\n${verificationMessage}` }],
+        isError: outcome.dialogErrorDetected || mismatchDetected,
       };
 
     } catch (error: any) {
-      console.error('Error during submit_assignment:', error);
+      logger.error('Error during submit_assignment', { error });
       return {
         content: [{ type: 'text', text: `Error during assignment submission: ${error.message}` }],
         isError: true,
@@ -18,7 +18,7 @@ import type { ImageContent, TextContent } from '@modelcontextprotocol/sdk/types'
 import type { JsonSchema7Type } from 'zod-to-json-schema';
 import type { Context } from '../context';
 
-export type ToolCapability = 'core' | 'tabs' | 'history' | 'wait';
+export type ToolCapability = 'core' | 'tabs' | 'pdf' | 'history' | 'wait' | 'files' | 'install' | 'tracing';
 
 export type ToolSchema = {
   name: string;
@@ -31,10 +31,15 @@ export type ToolResult = {
   isError?: boolean;
 };
 
+/**
+ * Reports a step of a long-running tool call to the client.
+ */
+export type ToolProgress = (message: string) => void;
+
 export type Tool = {
   capability: ToolCapability;
   schema: ToolSchema;
-  handle: (context: Context, params?: Record<string, any>) => Promise<ToolResult>;
+  handle: (context: Context, params?: Record<string, any>, progress?: ToolProgress) => Promise<ToolResult>;
 };
 
 export type ToolFactory = (snapshot: boolean) => Tool;
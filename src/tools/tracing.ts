@@ -0,0 +1,85 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import path from 'path';
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+
+import type { Context } from '../context';
+import type { Tool, ToolResult } from './tool';
+
+const startTracingSchema = z.object({});
+
+const stopTracingSchema = z.object({});
+
+const startTracing: Tool = {
+  capability: 'tracing',
+  schema: {
+    name: 'browser_start_tracing',
+    description: 'Start saving a Playwright trace of every following tool call to the output directory, with screenshots and DOM snapshots of each step. Open a trace with "npx playwright show-trace <file>".',
+    inputSchema: zodToJsonSchema(startTracingSchema),
+  },
+
+  handle: async (context: Context, params?: unknown): Promise<ToolResult> => {
+    startTracingSchema.parse(params ?? {});
+    if (context.isSavingTraces()) {
+      return {
+        content: [{ type: 'text', text: `Traces are already being saved to ${context.tracesDir()}` }],
+      };
+    }
+    context.startSavingTraces();
+    return {
+      content: [{ type: 'text', text: `Saving a trace of every tool call to ${context.tracesDir()}` }],
+    };
+  },
+};
+
+const stopTracing: Tool = {
+  capability: 'tracing',
+  schema: {
+    name: 'browser_stop_tracing',
+    description: 'Stop saving traces of tool calls and list the traces saved since browser_start_tracing.',
+    inputSchema: zodToJsonSchema(stopTracingSchema),
+  },
+
+  handle: async (context: Context, params?: unknown): Promise<ToolResult> => {
+    try {
+      stopTracingSchema.parse(params ?? {});
+      if (!context.isSavingTraces()) {
+        return {
+          content: [{ type: 'text', text: 'Traces are not being saved' }],
+        };
+      }
+      const traces = await context.stopSavingTraces();
+      const lines = [`Stopped saving traces. Saved ${traces.length === 1 ? '1 trace' : `${traces.length} traces`} to ${context.tracesDir()}`];
+      lines.push(...traces.map(trace => `- ${path.basename(trace)}`));
+      return {
+        content: [{ type: 'text', text: lines.join('\n') }],
+      };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: `Failed to stop tracing: ${error instanceof Error ? error.message : String(error)}` }],
+        isError: true,
+      };
+    }
+  },
+};
+
+export default [
+  startTracing,
+  stopTracing,
+];
@@ -15,6 +15,7 @@
  */
 
 import type * as playwright from 'playwright';
+import type { Context } from '../context';
 
 export async function waitForCompletion<R>(page: playwright.Page, callback: () => Promise<R>): Promise<R> {
   const requests = new Set<playwright.Request>();
@@ -72,3 +73,24 @@ export async function waitForCompletion<R>(page: playwright.Page, callback: () =
 export function sanitizeForFilePath(s: string) {
   return s.replace(/[\x00-\x2C\x2E-\x2F\x3A-\x40\x5B-\x60\x7B-\x7F]+/g, '-');
 }
+
+function submitsForm(element: Element | null, action: 'click' | 'enter'): boolean {
+  const control = element?.closest('button, input') as HTMLButtonElement | HTMLInputElement | null | undefined;
+  if (control?.form && (control.type === 'submit' || control.type === 'image'))
+    return true;
+  // Enter in a text field submits its form implicitly, while Enter in a textarea starts a new line.
+  return action === 'enter' && element?.tagName === 'INPUT' && !!(element as HTMLInputElement).form;
+}
+
+/**
+ * Refuses, when the server is read-only, an interaction that would submit a
+ * form: clicking a submit button, or pressing Enter in a form field. Other
+ * interactions, like opening accordions or following links, are allowed.
+ */
+export async function ensureNotSubmitting(context: Context, target: () => Promise<playwright.JSHandle<Element | null> | null>, action: 'click' | 'enter', description: string) {
+  if (!context.options.readOnly)
+    return;
+  const handle = await target();
+  if (handle && await handle.evaluate(submitsForm, action))
+    throw new Error(`${description} would submit a form, and the server is read-only. Use submit_assignment with dryRun to check the answers without submitting them.`);
+}
@@ -0,0 +1,72 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import { createLogger } from './logger';
+import { sanitizeForFilePath } from './tools/utils';
+
+import type { Context } from './context';
+
+const logger = createLogger('traces');
+
+// Keeps trace file names well below the file name limits of common file systems.
+const maxArgumentsLength = 80;
+
+export type ToolCall = {
+  tool: string;
+  arguments?: Record<string, unknown>;
+};
+
+/**
+ * Title of the trace chunk of a tool call, shown by the trace viewer.
+ */
+export function traceTitle(call: ToolCall): string {
+  return call.arguments && Object.keys(call.arguments).length ? `${call.tool} ${JSON.stringify(call.arguments)}` : call.tool;
+}
+
+/**
+ * Name of the trace file of a tool call: the time of the call, the tool and
+ * the values of its arguments, e.g.
+ * "2025-04-01T09-30-00-000Z-browser-navigate-url-https-moocs-iniad-org-courses.zip".
+ */
+export function traceFileName(call: ToolCall, time = new Date()): string {
+  const values = Object.entries(call.arguments ?? {}).map(([name, value]) => `${name}-${typeof value === 'string' ? value : JSON.stringify(value)}`);
+  const args = sanitizeForFilePath(values.join('-')).replace(/^-+|-+$/g, '').slice(0, maxArgumentsLength);
+  return `${time.toISOString().replace(/[:.]/g, '-')}-${sanitizeForFilePath(call.tool)}${args ? `-${args}` : ''}.zip`;
+}
+
+/**
+ * Saves the trace chunk of a tool call to the traces directory when traces
+ * are being saved. Returns the path of the trace, or undefined when the chunk
+ * was not saved and is still open.
+ */
+export async function saveTrace(context: Context, call: ToolCall): Promise<string | undefined> {
+  if (!context.isSavingTraces())
+    return undefined;
+  try {
+    await fs.promises.mkdir(context.tracesDir(), { recursive: true, mode: 0o700 });
+    const file = path.join(context.tracesDir(), traceFileName(call));
+    if (!await context.stopTraceChunk(file))
+      return undefined;
+    logger.debug(`Saved the trace of ${call.tool} to ${file}`);
+    return file;
+  } catch (error) {
+    logger.warning(`Could not save the trace of ${call.tool}`, { error });
+    return undefined;
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+
+import { test, expect } from './fixtures';
+
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+
+async function getAssignmentDetails(client: Client) {
+  const response = await client.callTool({ name: 'getAssignmentDetails' });
+  expect(response.isError).toBeFalsy();
+  return JSON.parse((response.content as any)[0].text);
+}
+
+test('getAssignmentDetails', async ({ moocsClient, moocs }) => {
+  await moocsClient.callTool({
+    name: 'browser_navigate',
+    arguments: { url: moocs.url('/courses/2025/CS101/02-basics/3') },
+  });
+
+  const ref = expect.stringMatching(/^s\d+e\d+$/);
+  expect(await getAssignmentDetails(moocsClient)).toEqual({
+    url: moocs.url('/courses/2025/CS101/02-basics/3'),
+    title: '確認テスト',
+    questions: [
+      { prompt: '変数名を答えてください', kind: 'text', action: 'type', ref, name: 'name', required: true, value: '' },
+      {
+        prompt: '整数を表す型はどれですか', kind: 'radio', action: 'check', name: 'type', required: false,
+        choices: [
+          { label: 'int', value: 'int', selected: false, ref },
+          { label: 'str', value: 'str', selected: false, ref },
+          { label: 'float', value: 'float', selected: false, ref },
+        ],
+      },
+      {
+        prompt: 'イミュータブルな型をすべて選んでください', kind: 'checkbox', action: 'check', name: 'immutable', required: false, value: [],
+        choices: [
+          { label: 'tuple', value: 'tuple', selected: false, ref },
+          { label: 'list', value: 'list', selected: false, ref },
+          { label: 'str', value: 'str', selected: false, ref },
+        ],
+      },
+      {
+        prompt: '理解度', kind: 'select', action: 'select', ref, name: 'level', required: false, value: ['よく分かった'],
+        choices: [
+          { label: 'よく分かった', value: 'よく分かった', selected: true },
+          { label: '分かった', value: '分かった', selected: false },
+          { label: '分からなかった', value: '分からなかった', selected: false },
+        ],
+      },
+      { prompt: 'ノートブックを提出してください', kind: 'file', action: 'upload', ref, name: 'notebook', required: true, value: [], accept: ['.ipynb', '.html'] },
+    ],
+    submitButton: { ref, label: '回答を保存' },
+  });
+});
+
+test('submit with refs from getAssignmentDetails', async ({ moocsClient, moocs }, testInfo) => {
+  const notebook = testInfo.outputPath('kadai.ipynb');
+  await fs.promises.writeFile(notebook, '{}');
+  await moocsClient.callTool({
+    name: 'browser_navigate',
+    arguments: { url: moocs.url('/courses/2025/CS101/02-basics/3') },
+  });
+  const details = await getAssignmentDetails(moocsClient);
+  const [name, type, immutable, level, file] = details.questions;
+
+  const response = await moocsClient.callTool({
+    name: 'submit_assignment',
+    arguments: {
+      operations: [
+        { action: name.action, ref: name.ref, value: 'answer' },
+        { action: type.action, ref: type.choices[0].ref },
+        { action: immutable.action, ref: immutable.choices[0].ref },
+        { action: immutable.action, ref: immutable.choices[2].ref },
+        { action: level.action, ref: level.ref, value: '分かった' },
+        { action: file.action, ref: file.ref, value: [notebook] },
+      ],
+      submitButtonRef: details.submitButton.ref,
+    },
+  });
+  expect(response.isError).toBeFalsy();
+  expect(moocs.submissions.get('/courses/2025/CS101/02-basics/3')).toEqual({
+    name: 'answer',
+    type: 'int',
+    immutable: ['tuple', 'str'],
+    level: '分かった',
+    notebook: ['kadai.ipynb'],
+  });
+
+  await moocsClient.callTool({
+    name: 'browser_navigate',
+    arguments: { url: moocs.url('/courses/2025/CS101/02-basics/3') },
+  });
+  const saved = await getAssignmentDetails(moocsClient);
+  expect(saved.questions.map(question => question.value)).toEqual(['answer', 'int', ['tuple', 'str'], ['分かった'], []]);
+});
+
+test('getAssignmentDetails on a page without questions', async ({ moocsClient, moocs }) => {
+  await moocsClient.callTool({
+    name: 'browser_navigate',
+    arguments: { url: moocs.url('/courses/2025/CS101/02-basics/1') },
+  });
+  expect(await getAssignmentDetails(moocsClient)).toEqual({
+    url: moocs.url('/courses/2025/CS101/02-basics/1'),
+    title: '変数',
+    questions: [],
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import { test, expect } from './fixtures';
+
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { FakeMoocs } from './fakeMoocs';
+
+const notebook = JSON.stringify({ cells: [], nbformat: 4, nbformat_minor: 5 });
+
+function addAttachments(moocs: FakeMoocs) {
+  moocs.courses[0].sections[1].lectures[0].slides[2].body = `
+    <p><a href="/static/02-basics/starter.ipynb">スターターノートブック</a>と<a href="/static/02-basics/data" download="scores.csv">成績データ</a>を使ってください。</p>
+    <p><a href="/courses/2025/CS101/02-basics/1">変数の復習</a></p>
+    <p><a href="/static/02-basics/starter.ipynb#top">もう一度</a></p>`;
+  moocs.files.set('/static/02-basics/starter.ipynb', { contentType: 'application/x-ipynb+json', body: notebook });
+  moocs.files.set('/static/02-basics/data', { contentType: 'text/csv', body: 'name,score\nalice,90\n' });
+}
+
+async function callJson(client: Client, name: string, args?: Record<string, unknown>) {
+  const response = await client.callTool({ name, arguments: args });
+  expect(response.isError).toBeFalsy();
+  return JSON.parse((response.content as any)[0].text);
+}
+
+test('listAttachments', async ({ moocsClient, moocs }) => {
+  addAttachments(moocs);
+  await moocsClient.callTool({ name: 'browser_navigate', arguments: { url: moocs.url('/courses/2025/CS101/02-basics/3') } });
+  expect(await callJson(moocsClient, 'listAttachments')).toEqual({
+    url: moocs.url('/courses/2025/CS101/02-basics/3'),
+    attachments: [
+      { index: 1, name: 'starter.ipynb', title: 'スターターノートブック', url: moocs.url('/static/02-basics/starter.ipynb'), source: 'link' },
+      { index: 2, name: 'scores.csv', title: '成績データ', url: moocs.url('/static/02-basics/data'), source: 'link' },
+    ],
+  });
+});
+
+test('downloadAttachments', async ({ startClient, moocs }, testInfo) => {
+  addAttachments(moocs);
+  const workspaceDir = testInfo.outputPath('workspace');
+  const client = await startClient({ args: [...moocs.args(), '--workspace-dir', workspaceDir], env: moocs.env() });
+  await client.callTool({ name: 'browser_navigate', arguments: { url: moocs.url('/courses/2025/CS101/02-basics/3') } });
+
+  const lectureDir = path.join(workspaceDir, '2025/CS101/02-basics');
+  expect(await callJson(client, 'downloadAttachments')).toEqual({
+    directory: lectureDir,
+    files: [
+      { name: 'starter.ipynb', url: moocs.url('/static/02-basics/starter.ipynb'), path: path.join(lectureDir, 'starter.ipynb'), status: 'downloaded' },
+      { name: 'scores.csv', url: moocs.url('/static/02-basics/data'), path: path.join(lectureDir, 'scores.csv'), status: 'downloaded' },
+    ],
+  });
+  expect(await fs.promises.readFile(path.join(lectureDir, 'starter.ipynb'), 'utf-8')).toBe(notebook);
+  expect(await fs.promises.readFile(path.join(lectureDir, 'scores.csv'), 'utf-8')).toBe('name,score\nalice,90\n');
+
+  // Edits to a downloaded file survive downloading it again.
+  await fs.promises.writeFile(path.join(lectureDir, 'starter.ipynb'), 'edited');
+  expect((await callJson(client, 'downloadAttachments', { attachments: ['starter.ipynb'] })).files[0].status).toBe('existing');
+  expect(await fs.promises.readFile(path.join(lectureDir, 'starter.ipynb'), 'utf-8')).toBe('edited');
+  expect(await callJson(client, 'downloadAttachments', { attachments: [1], directory: 'week2', overwrite: true })).toEqual({
+    directory: path.join(workspaceDir, 'week2'),
+    files: [expect.objectContaining({ path: path.join(workspaceDir, 'week2', 'starter.ipynb'), status: 'downloaded' })],
+  });
+  // Names that only start with two dots stay inside the workspace.
+  expect((await callJson(client, 'downloadAttachments', { attachments: [1], directory: '..notes' })).directory).toBe(path.join(workspaceDir, '..notes'));
+
+  expect(await client.callTool({ name: 'downloadAttachments', arguments: { attachments: [3] } })).toHaveTextContent(
+      'Failed to download attachments: Unknown attachment: 3. Available attachments: 1 (starter.ipynb), 2 (scores.csv)');
+  expect(await client.callTool({ name: 'downloadAttachments', arguments: { directory: '../outside' } })).toHaveTextContent(
+      `Failed to download attachments: The directory must be inside the workspace directory ${workspaceDir}`);
+});
+
+test('downloadAttachments with the same name', async ({ startClient, moocs }, testInfo) => {
+  moocs.courses[0].sections[1].lectures[0].slides[2].body = `
+    <p><a href="/static/02-basics/week1/data.csv">第1週のデータ</a></p>
+    <p><a href="/static/02-basics/week2/data.csv">第2週のデータ</a></p>`;
+  moocs.files.set('/static/02-basics/week1/data.csv', { contentType: 'text/csv', body: 'week,1\n' });
+  moocs.files.set('/static/02-basics/week2/data.csv', { contentType: 'text/csv', body: 'week,2\n' });
+  const workspaceDir = testInfo.outputPath('workspace');
+  const client = await startClient({ args: [...moocs.args(), '--workspace-dir', workspaceDir], env: moocs.env() });
+  await client.callTool({ name: 'browser_navigate', arguments: { url: moocs.url('/courses/2025/CS101/02-basics/3') } });
+
+  const { files } = await callJson(client, 'downloadAttachments');
+  expect(files.map(file => [path.basename(file.path), file.status])).toEqual([
+    ['data.csv', 'downloaded'],
+    [expect.stringMatching(/^data-[0-9a-f]{8}\.csv$/), 'downloaded'],
+  ]);
+  expect(await fs.promises.readFile(files[0].path, 'utf-8')).toBe('week,1\n');
+  expect(await fs.promises.readFile(files[1].path, 'utf-8')).toBe('week,2\n');
+
+  // Each attachment finds its own file again, in any order.
+  expect((await callJson(client, 'downloadAttachments', { attachments: [2, 1] })).files).toEqual([
+    expect.objectContaining({ path: files[1].path, status: 'existing' }),
+    expect.objectContaining({ path: files[0].path, status: 'existing' }),
+  ]);
+});
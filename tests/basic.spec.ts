@@ -14,6 +14,8 @@
  * limitations under the License.
  */
 
+import fs from 'fs';
+
 import { test, expect } from './fixtures';
 
 test('browser_navigate', async ({ client }) => {
@@ -34,3 +36,141 @@ Navigated to data:text/html,<html><title>Title</title><body>Hello, world!</body>
 `
   );
 });
+
+test('browser_click', async ({ client }) => {
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: {
+      url: `data:text/html,<title>Title</title><button onclick="this.textContent = 'Clicked'">Submit</button>`,
+    },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Submit button', ref: 's1e3' },
+  })).toHaveTextContent(/^Clicked "Submit button" \(button "Submit"\)\n\n[^]*- button "Clicked" \[ref=s2e3\]/);
+});
+
+test('browser_type', async ({ client }) => {
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: {
+      url: `data:text/html,<title>Title</title><input type="text" onkeydown="if (event.key === 'Enter') document.title = this.value">`,
+    },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_type',
+    arguments: { element: 'Textbox', ref: 's1e3', text: 'Hi!', submit: true },
+  })).toHaveTextContent(/^Typed "Hi!" into "Textbox" \(textbox\)\n\n- Page URL: .*\n- Page Title: Hi!/);
+});
+
+test('browser_select_option', async ({ client }) => {
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: {
+      url: `data:text/html,<title>Title</title><select><option value="foo">Foo</option><option value="bar">Bar</option></select>`,
+    },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_select_option',
+    arguments: { element: 'Fruit dropdown', ref: 's1e3', values: ['bar'] },
+  })).toHaveTextContent(/^Selected option in "Fruit dropdown" \(combobox\)\n\n[^]*- option "Bar" \[selected\]/);
+});
+
+test('browser_press_key', async ({ client }) => {
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: {
+      url: `data:text/html,<title>Title</title><body onkeydown="document.title = event.key"></body>`,
+    },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_press_key',
+    arguments: { key: 'ArrowLeft' },
+  })).toHaveTextContent(/^Pressed key ArrowLeft\n\n- Page URL: .*\n- Page Title: ArrowLeft/);
+});
+
+test('browser_file_upload', async ({ client }, testInfo) => {
+  const file = testInfo.outputPath('report.txt');
+  await fs.promises.writeFile(file, 'report');
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: {
+      url: `data:text/html,<title>Title</title><input type="file" onchange="document.title = this.files[0].name">`,
+    },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'File upload textbox', ref: 's1e3' },
+  })).toHaveTextContent(/There is a file chooser visible that requires browser_file_upload to be called/);
+
+  expect(await client.callTool({
+    name: 'browser_file_upload',
+    arguments: { paths: [file] },
+  })).toHaveTextContent(/^Chose files .*report\.txt\n\n- Page URL: .*\n- Page Title: report\.txt/);
+});
+
+test('reject refs missing from the current snapshot', async ({ client }) => {
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: {
+      url: `data:text/html,<title>Title</title><button>Submit</button>`,
+    },
+  });
+
+  const response = await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Submit button', ref: 's1e42' },
+  });
+  expect(response.isError).toBe(true);
+  expect(response).toHaveTextContent(/Ref s1e42 for "Submit button" is not in the current page snapshot\. Capture a new snapshot with browser_snapshot and use a ref from it\./);
+});
+
+test('reject refs that do not match the element description', async ({ client }) => {
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: {
+      url: `data:text/html,<meta charset="utf-8"><title>Title</title><button onclick="document.title = 'Deleted'">Delete</button><button onclick="document.title = 'Saved'">回答を保存</button>`,
+    },
+  });
+
+  const response = await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Cancel link', ref: 's1e3' },
+  });
+  expect(response.isError).toBe(true);
+  expect(response).toHaveTextContent(/Ref s1e3 is button "Delete", which does not match "Cancel link"\./);
+
+  // Generic words like "option" or "field" name no role, and the name is not in the description.
+  for (const element of ['Save option', '送信の入力欄'])
+    expect(await client.callTool({ name: 'browser_click', arguments: { element, ref: 's1e3' } })).toHaveTextContent(/which does not match/);
+  expect(await client.callTool({ name: 'browser_click', arguments: { element: '回答を送信', ref: 's1e4' } })).toHaveTextContent(/Ref s1e4 is button "回答を保存", which does not match "回答を送信"\./);
+
+  expect(await client.callTool({
+    name: 'browser_click',
+    arguments: { element: '保存', ref: 's1e4' },
+  })).toHaveTextContent(/Clicked "保存" \(button "回答を保存"\)[\s\S]*- Page Title: Saved/);
+});
+
+test('reject refs of unnamed elements unless the description names their role', async ({ client }) => {
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: {
+      url: `data:text/html,<title>Title</title><input type="text">`,
+    },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_type',
+    arguments: { element: 'Name field', ref: 's1e3', text: 'Hi!' },
+  })).toHaveTextContent(/Ref s1e3 is textbox, which does not match "Name field"\./);
+
+  expect(await client.callTool({
+    name: 'browser_type',
+    arguments: { element: 'Name textbox', ref: 's1e3', text: 'Hi!' },
+  })).toHaveTextContent(/^Typed "Hi!" into "Name textbox" \(textbox\)/);
+});
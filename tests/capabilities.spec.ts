@@ -20,20 +20,43 @@ test('test snapshot tool list', async ({ client }) => {
   const { tools } = await client.listTools();
   expect(new Set(tools.map(t => t.name))).toEqual(new Set([
     'browser_close',
+    'browser_install',
     'browser_handle_dialog',
     'browser_wait',
     'browser_navigate',
     'browser_navigate_back',
     'browser_navigate_forward',
     'browser_snapshot',
+    'browser_click',
+    'browser_drag',
+    'browser_hover',
+    'browser_type',
+    'browser_select_option',
+    'browser_press_key',
+    'browser_file_upload',
     'browser_tab_list',
     'browser_tab_new',
     'browser_tab_select',
     'browser_tab_close',
+    'browser_pdf_save',
+    'browser_start_tracing',
+    'browser_stop_tracing',
     'loginToIniadMoocsWithIniadAccount',
+    'moocs_login_status',
+    'moocs_logout',
+    'moocs_list_profiles',
+    'moocs_switch_profile',
     'listLectureLinks',
     'listSlideLinks',
+    'readSlide',
+    'readLecture',
+    'listAttachments',
+    'downloadAttachments',
     'listCourses',
+    'listUpcomingDeadlines',
+    'exportDeadlinesToIcal',
+    'exportCourse',
+    'getAssignmentDetails',
     'submit_assignment',
   ]));
 });
@@ -42,19 +65,42 @@ test('test vision tool list', async ({ visionClient }) => {
   const { tools: visionTools } = await visionClient.listTools();
   expect(new Set(visionTools.map(t => t.name))).toEqual(new Set([
     'browser_close',
+    'browser_install',
     'browser_handle_dialog',
     'browser_wait',
     'browser_navigate',
     'browser_navigate_back',
     'browser_navigate_forward',
+    'browser_screenshot',
+    'browser_screen_move_mouse',
+    'browser_screen_click',
+    'browser_screen_drag',
+    'browser_screen_type',
+    'browser_press_key',
+    'browser_file_upload',
     'browser_tab_list',
     'browser_tab_new',
     'browser_tab_select',
     'browser_tab_close',
+    'browser_pdf_save',
+    'browser_start_tracing',
+    'browser_stop_tracing',
     'loginToIniadMoocsWithIniadAccount',
+    'moocs_login_status',
+    'moocs_logout',
+    'moocs_list_profiles',
+    'moocs_switch_profile',
     'listLectureLinks',
     'listSlideLinks',
+    'readSlide',
+    'readLecture',
+    'listAttachments',
+    'downloadAttachments',
     'listCourses',
+    'listUpcomingDeadlines',
+    'exportDeadlinesToIcal',
+    'exportCourse',
+    'getAssignmentDetails',
     'submit_assignment',
   ]));
 });
@@ -82,4 +128,10 @@ test('test capabilities', async ({ startClient }) => {
   expect(toolNames).not.toContain('browser_wait');
   expect(toolNames).not.toContain('browser_navigate_back');
   expect(toolNames).not.toContain('browser_navigate_forward');
+  expect(toolNames).not.toContain('downloadAttachments');
+  expect(toolNames).not.toContain('browser_pdf_save');
+  expect(toolNames).not.toContain('browser_install');
+  expect(toolNames).not.toContain('browser_file_upload');
+  expect(toolNames).not.toContain('browser_start_tracing');
+  expect(toolNames).toContain('browser_click');
 });
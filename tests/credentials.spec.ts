@@ -0,0 +1,52 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+
+import { test, expect } from './fixtures';
+
+test('secrets file must be private', async ({ startClient }, testInfo) => {
+  const secretsFile = testInfo.outputPath('secrets.yaml');
+  await fs.promises.writeFile(secretsFile, 'username: s1f102400000\npassword: secret\n');
+  await fs.promises.chmod(secretsFile, 0o644);
+  const client = await startClient({ args: [`--credentials=file:${secretsFile}`] });
+  expect(await client.callTool({
+    name: 'loginToIniadMoocsWithIniadAccount',
+  })).toHaveTextContent(`Login failed: Secrets file ${secretsFile} is accessible by other users, restrict it with "chmod 600 ${secretsFile}".`);
+});
+
+test('password command must print a password', async ({ startClient }, testInfo) => {
+  const configFile = testInfo.outputPath('config.yaml');
+  await fs.promises.writeFile(configFile, [
+    'profiles:',
+    '  student:',
+    '    credentials:',
+    '      type: command',
+    '      command: "true"',
+    '      username: s1f102400000',
+  ].join('\n'));
+  const client = await startClient({ args: ['--config', configFile, '--profile', 'student'] });
+  expect(await client.callTool({
+    name: 'loginToIniadMoocsWithIniadAccount',
+  })).toHaveTextContent('Login failed: Password command "true" printed no password.');
+});
+
+test('interactive login needs a headed browser', async ({ startClient }) => {
+  const client = await startClient({ args: ['--credentials=interactive'] });
+  expect(await client.callTool({
+    name: 'loginToIniadMoocsWithIniadAccount',
+  })).toHaveTextContent('Login failed: Interactive login needs a visible browser window, start the server without --headless.');
+});
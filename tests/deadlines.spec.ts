@@ -0,0 +1,175 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { execFile } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import util from 'util';
+
+import { test, expect } from './fixtures';
+
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { FakeMoocs } from './fakeMoocs';
+
+const day = 24 * 60 * 60 * 1000;
+
+// Minutes in Japan Standard Time, e.g. ['2025', '05', '10', '23', '59'].
+function jstParts(time: number) {
+  return new Date(time + 9 * 60 * 60 * 1000).toISOString().match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/)!.slice(1);
+}
+
+function setDeadlines(moocs: FakeMoocs, now: number) {
+  const [cs101, pr201] = moocs.courses;
+  const [y1, m1, d1, h1, min1] = jstParts(now + 3 * day);
+  cs101.sections[0].lectures[0].slides[2].deadline = `${y1}/${m1}/${d1} ${h1}:${min1}`;
+  const [y2, m2, d2, h2, min2] = jstParts(now + 30 * day);
+  cs101.sections[1].lectures[0].slides[2].deadline = `${y2}-${m2}-${d2} ${h2}:${min2}`;
+  const [y3, m3, d3, h3, min3] = jstParts(now - day);
+  pr201.sections[0].lectures[0].slides[0].deadline = `${y3}年${+m3}月${+d3}日 (月) ${h3}時${min3}分`;
+  pr201.sections[0].lectures[0].status = '未提出';
+  return [now + 3 * day, now + 30 * day, now - day].map(time => {
+    const [y, m, d, h, min] = jstParts(time);
+    return `${y}-${m}-${d}T${h}:${min}:00+09:00`;
+  });
+}
+
+async function listUpcomingDeadlines(client: Client, args?: Record<string, unknown>) {
+  const response = await client.callTool({ name: 'listUpcomingDeadlines', arguments: args });
+  expect(response.isError).toBeFalsy();
+  return JSON.parse((response.content as any)[0].text);
+}
+
+test('listUpcomingDeadlines', async ({ moocsClient, moocs }) => {
+  const [soon] = setDeadlines(moocs, Date.now());
+  const result = await listUpcomingDeadlines(moocsClient);
+  expect(result.deadlines).toEqual([{
+    deadline: soon,
+    overdue: false,
+    course: { id: 'CS101', title: 'コンピュータ・サイエンス入門' },
+    lecture: { id: '2025/CS101/01-intro', title: '1-1 講義概要', url: moocs.url('/courses/2025/CS101/01-intro') },
+    page: { title: '演習課題', url: moocs.url('/courses/2025/CS101/01-intro/3') },
+    status: 'unsubmitted',
+  }]);
+});
+
+test('listUpcomingDeadlines with a wider window and overdue problems', async ({ moocsClient, moocs }) => {
+  const [soon, later, overdue] = setDeadlines(moocs, Date.now());
+  const result = await listUpcomingDeadlines(moocsClient, { withinDays: 60, includeOverdue: true });
+  expect(result.deadlines.map(deadline => [deadline.deadline, deadline.lecture.id, deadline.overdue])).toEqual([
+    [overdue, '2025/PR201/01-guidance', true],
+    [soon, '2025/CS101/01-intro', false],
+    [later, '2025/CS101/02-basics', false],
+  ]);
+});
+
+test('listUpcomingDeadlines of one course', async ({ moocsClient, moocs }) => {
+  setDeadlines(moocs, Date.now());
+  const result = await listUpcomingDeadlines(moocsClient, { courses: ['PR201'], includeOverdue: true });
+  expect(result.deadlines.map(deadline => deadline.course.id)).toEqual(['PR201']);
+
+  const unknown = await moocsClient.callTool({ name: 'listUpcomingDeadlines', arguments: { courses: ['XX999'] } });
+  expect(unknown.isError).toBe(true);
+  expect(unknown).toHaveTextContent('Failed to list upcoming deadlines: Unknown courses: XX999. Available courses: CS101, PR201');
+});
+
+// Unfolds the lines of a calendar and returns the properties of each event.
+function parseEvents(ical: string) {
+  const lines = ical.replace(/\r\n /g, '').split('\r\n');
+  const events: Record<string, string>[] = [];
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT')
+      events.push({});
+    else if (events.length && line !== 'END:VEVENT' && !line.startsWith('END:VCALENDAR'))
+      events[events.length - 1][line.slice(0, line.indexOf(':'))] = line.slice(line.indexOf(':') + 1);
+  }
+  return events;
+}
+
+async function exportDeadlinesToIcal(client: Client, args?: Record<string, unknown>) {
+  const response = await client.callTool({ name: 'exportDeadlinesToIcal', arguments: args });
+  expect(response.isError).toBeFalsy();
+  return (response.content as any)[0].text as string;
+}
+
+test('exportDeadlinesToIcal', async ({ moocsClient, moocs }) => {
+  const now = Date.now();
+  setDeadlines(moocs, now);
+  const ical = await exportDeadlinesToIcal(moocsClient);
+  expect(ical).toMatch(/^BEGIN:VCALENDAR\r\nVERSION:2\.0\r\n/);
+  expect(ical).toMatch(/END:VCALENDAR\r\n$/);
+  expect(ical.split('\r\n').every(line => Buffer.byteLength(line) <= 75)).toBe(true);
+
+  const events = parseEvents(ical);
+  expect(events.map(event => [event.SUMMARY, event.URL])).toEqual([
+    ['[コンピュータ・サイエンス入門] 1-1 講義概要', moocs.url('/courses/2025/CS101/01-intro')],
+    ['[コンピュータ・サイエンス入門] 2-1 変数と型', moocs.url('/courses/2025/CS101/02-basics')],
+  ]);
+  expect(events[0].DTSTART).toBe(new Date(Math.floor((now + 3 * day) / 60000) * 60000).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}Z$/, 'Z'));
+  expect(events[0].DESCRIPTION).toContain('コース: コンピュータ・サイエンス入門\\n講義: 1-1 講義概要\\n');
+  expect(events[0].UID).toMatch(/^[0-9a-f]{32}@iniad-moocs-mcp$/);
+
+  // A moved deadline keeps its UID, so calendars update the event instead of adding another one.
+  setDeadlines(moocs, now + day);
+  const updated = parseEvents(await exportDeadlinesToIcal(moocsClient, { includePast: true }));
+  expect(updated.map(event => event.UID)).toEqual([
+    expect.any(String),
+    events[0].UID,
+    events[1].UID,
+  ]);
+  expect(updated[1].DTSTART).not.toBe(events[0].DTSTART);
+});
+
+test('exportDeadlinesToIcal keeps the UID of a deadline when an earlier one on its page is filtered out', async ({ moocsClient, moocs }) => {
+  const now = Date.now();
+  setDeadlines(moocs, now);
+  const [y1, m1, d1, h1, min1] = jstParts(now - day);
+  const [y2, m2, d2, h2, min2] = jstParts(now + 3 * day);
+  moocs.courses[0].sections[0].lectures[0].slides[2].deadline = `${y1}/${m1}/${d1} ${h1}:${min1} 再提出期限: ${y2}/${m2}/${d2} ${h2}:${min2}`;
+
+  const all = parseEvents(await exportDeadlinesToIcal(moocsClient, { includePast: true }))
+      .filter(event => event.URL === moocs.url('/courses/2025/CS101/01-intro'));
+  expect(all).toHaveLength(2);
+  const upcoming = parseEvents(await exportDeadlinesToIcal(moocsClient))
+      .filter(event => event.URL === moocs.url('/courses/2025/CS101/01-intro'));
+  expect(upcoming.map(event => [event.UID, event.DTSTART])).toEqual([[all[1].UID, all[1].DTSTART]]);
+});
+
+test('exportDeadlinesToIcal to a file', async ({ moocsClient, moocs }, testInfo) => {
+  setDeadlines(moocs, Date.now());
+  const outputPath = testInfo.outputPath('calendar', 'deadlines.ics');
+  const response = await moocsClient.callTool({ name: 'exportDeadlinesToIcal', arguments: { withinDays: 7, outputPath } });
+  expect(response).toHaveTextContent(`Exported 1 deadlines to ${outputPath}`);
+  expect(parseEvents(await fs.promises.readFile(outputPath, 'utf-8')).map(event => event.URL)).toEqual([
+    moocs.url('/courses/2025/CS101/01-intro'),
+  ]);
+});
+
+test('export-ical command', async ({ moocs }, testInfo) => {
+  setDeadlines(moocs, Date.now());
+  const { stdout } = await util.promisify(execFile)('node', [
+    path.join(__dirname, '../cli.js'),
+    '--headless',
+    '--user-data-dir', testInfo.outputPath('user-data-dir'),
+    ...moocs.args(),
+    'export-ical',
+    '--courses', 'CS101',
+    '--include-past',
+  ], { env: { ...process.env, ...moocs.env() }, timeout: 60000 });
+  expect(parseEvents(stdout).map(event => event.URL)).toEqual([
+    moocs.url('/courses/2025/CS101/01-intro'),
+    moocs.url('/courses/2025/CS101/02-basics'),
+  ]);
+});
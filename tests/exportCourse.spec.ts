@@ -0,0 +1,118 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { execFile } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import util from 'util';
+
+import { test, expect } from './fixtures';
+
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { FakeMoocs } from './fakeMoocs';
+
+function addMaterials(moocs: FakeMoocs) {
+  moocs.courses[0].sections[0].lectures[0].slides[0].body = `
+    <p>この講義では計算機の基礎を学びます。</p>
+    <img src="/static/diagram.png" alt="講義の構成図">
+    <p><a href="/static/handout.pdf">配布資料</a>と<a href="/static/missing.zip">サンプル</a>、<a href="/courses/2025/CS101/01-intro/2">次のページ</a></p>`;
+  moocs.files.set('/static/diagram.png', { contentType: 'image/png', body: Buffer.from('png') });
+  moocs.files.set('/static/handout.pdf', { contentType: 'application/pdf', body: '%PDF-1.4' });
+}
+
+async function exportCourse(client: Client, args: Record<string, unknown>) {
+  const response = await client.callTool({ name: 'exportCourse', arguments: args });
+  expect(response.isError).toBeFalsy();
+  return JSON.parse((response.content as any)[0].text);
+}
+
+test('exportCourse', async ({ moocsClient, moocs }, testInfo) => {
+  addMaterials(moocs);
+  const outputDir = testInfo.outputPath('export');
+  expect(await exportCourse(moocsClient, { course: 'CS101', outputDir })).toEqual({
+    outputDir,
+    index: path.join(outputDir, 'index.md'),
+    lectures: 3,
+    pages: { exported: 7, skipped: 0 },
+    assets: { downloaded: 2, failed: [moocs.url('/static/missing.zip')] },
+  });
+
+  expect(await fs.promises.readFile(path.join(outputDir, 'index.md'), 'utf-8')).toBe(`# コンピュータ・サイエンス入門
+
+<${moocs.url('/courses/2025/CS101')}>
+
+## 第1回 イントロダクション
+
+- 1-1 講義概要 (unsubmitted)
+  1. [講義の進め方](<01-第1回-イントロダクション/01-1-1-講義概要/01-講義の進め方.md>)
+  2. [成績評価](<01-第1回-イントロダクション/01-1-1-講義概要/02-成績評価.md>)
+  3. [演習課題](<01-第1回-イントロダクション/01-1-1-講義概要/03-演習課題.md>)
+- 1-2 環境構築 (graded 8/10)
+  1. [エディタのインストール](<01-第1回-イントロダクション/02-1-2-環境構築/01-エディタのインストール.md>)
+
+## 第2回 プログラミングの基礎
+
+- 2-1 変数と型 (unsubmitted)
+  1. [変数](<02-第2回-プログラミングの基礎/01-2-1-変数と型/01-変数.md>)
+  2. [型](<02-第2回-プログラミングの基礎/01-2-1-変数と型/02-型.md>)
+  3. [確認テスト](<02-第2回-プログラミングの基礎/01-2-1-変数と型/03-確認テスト.md>)
+`);
+
+  const page = await fs.promises.readFile(path.join(outputDir, '01-第1回-イントロダクション/01-1-1-講義概要/01-講義の進め方.md'), 'utf-8');
+  expect(page).toContain(`<!-- ${moocs.url('/courses/2025/CS101/01-intro/1')} -->`);
+  const image = page.match(/!\[講義の構成図\]\(<(\.\.\/\.\.\/assets\/[0-9a-f]{12}-diagram\.png)>\)/)![1];
+  const handout = page.match(/\[配布資料\]\(<(\.\.\/\.\.\/assets\/[0-9a-f]{12}-handout\.pdf)>\)/)![1];
+  expect(page).toContain(`[サンプル](${moocs.url('/static/missing.zip')})`);
+  expect(page).toContain(`[次のページ](${moocs.url('/courses/2025/CS101/01-intro/2')})`);
+
+  const lectureDir = path.join(outputDir, '01-第1回-イントロダクション/01-1-1-講義概要');
+  expect(await fs.promises.readFile(path.join(lectureDir, image), 'utf-8')).toBe('png');
+  expect(await fs.promises.readFile(path.join(lectureDir, handout), 'utf-8')).toBe('%PDF-1.4');
+});
+
+test('exportCourse resumes an earlier export', async ({ moocsClient, moocs }, testInfo) => {
+  addMaterials(moocs);
+  const outputDir = testInfo.outputPath('export');
+  await exportCourse(moocsClient, { course: '2025/CS101', outputDir });
+
+  await fs.promises.unlink(path.join(outputDir, '02-第2回-プログラミングの基礎/01-2-1-変数と型/02-型.md'));
+  expect(await exportCourse(moocsClient, { course: 'CS101', outputDir })).toEqual(expect.objectContaining({
+    pages: { exported: 1, skipped: 6 },
+    assets: { downloaded: 0, failed: [] },
+  }));
+  expect(fs.existsSync(path.join(outputDir, '02-第2回-プログラミングの基礎/01-2-1-変数と型/02-型.md'))).toBe(true);
+
+  expect(await exportCourse(moocsClient, { course: 'CS101', outputDir, force: true })).toEqual(expect.objectContaining({
+    pages: { exported: 7, skipped: 0 },
+  }));
+
+  const other = await moocsClient.callTool({ name: 'exportCourse', arguments: { course: 'PR201', outputDir } });
+  expect(other).toHaveTextContent(`Failed to export course: ${outputDir} holds an export of another course (${moocs.url('/courses/2025/CS101')}). Choose another directory.`);
+});
+
+test('export-course command', async ({ moocs }, testInfo) => {
+  const outputDir = testInfo.outputPath('export');
+  const { stdout } = await util.promisify(execFile)('node', [
+    path.join(__dirname, '../cli.js'),
+    '--headless',
+    '--user-data-dir', testInfo.outputPath('user-data-dir'),
+    ...moocs.args(),
+    'export-course', 'PR201',
+    '--output', outputDir,
+  ], { env: { ...process.env, ...moocs.env() }, timeout: 60000 });
+  expect(stdout).toContain(`Exported 1 pages (0 already exported) and 0 files to ${outputDir}`);
+  expect(await fs.promises.readFile(path.join(outputDir, '01-第1回-ガイダンス/01-1-1-ガイダンス/01-ガイダンス.md'), 'utf-8')).toContain('# 1-1 ガイダンス');
+});
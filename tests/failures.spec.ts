@@ -0,0 +1,78 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import { test, expect } from './fixtures';
+
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+
+const page = `data:text/html,<title>Title</title><button>Submit</button><script>console.log('Hello from the page')</script>`;
+
+async function failClick(client: Client) {
+  return await client.callTool({ name: 'browser_click', arguments: { element: 'Missing button', ref: 's1e42' } });
+}
+
+test('save a failure bundle', async ({ startClient }, testInfo) => {
+  const outputDir = testInfo.outputPath('output');
+  const client = await startClient({ args: ['--output-dir', outputDir] });
+  await client.callTool({ name: 'browser_navigate', arguments: { url: page } });
+
+  const response = await failClick(client);
+  expect(response.isError).toBe(true);
+  const content = response.content as any[];
+  expect(content[0].text).toMatch(/Ref s1e42 for "Missing button" is not in the current page snapshot/);
+  const directory = content[1].text.match(/^Failure details saved to (.*)$/)[1];
+  expect(path.dirname(directory)).toBe(path.join(outputDir, 'failures'));
+  expect(content[2]).toEqual({ type: 'image', data: expect.any(String), mimeType: 'image/png' });
+
+  expect((await fs.promises.readdir(directory)).sort()).toEqual(['console.txt', 'failure.json', 'screenshot.png', 'snapshot.yml']);
+  expect(JSON.parse(await fs.promises.readFile(path.join(directory, 'failure.json'), 'utf-8'))).toEqual({
+    time: expect.any(String),
+    tool: 'browser_click',
+    arguments: { element: 'Missing button', ref: 's1e42' },
+    message: expect.stringMatching(/Ref s1e42/),
+    url: page,
+    title: 'Title',
+  });
+  expect(await fs.promises.readFile(path.join(directory, 'snapshot.yml'), 'utf-8')).toContain('button "Submit"');
+  expect(await fs.promises.readFile(path.join(directory, 'console.txt'), 'utf-8')).toBe('[LOG] Hello from the page\n');
+
+  // Saving the bundle keeps the refs of the last snapshot usable.
+  expect(await client.callTool({ name: 'browser_click', arguments: { element: 'Submit button', ref: 's1e3' } })).toHaveTextContent(/^Clicked "Submit button" \(button "Submit"\)/);
+});
+
+test('keep the trace of the failed call', async ({ startClient }, testInfo) => {
+  const outputDir = testInfo.outputPath('output');
+  const client = await startClient({ args: ['--output-dir', outputDir, '--trace-failures'] });
+  expect((await client.callTool({ name: 'browser_navigate', arguments: { url: page } })).isError).toBeFalsy();
+
+  const response = await failClick(client);
+  const directory = (response.content as any[])[1].text.match(/^Failure details saved to (.*)$/)[1];
+  expect(fs.existsSync(path.join(directory, 'trace.zip'))).toBe(true);
+});
+
+test('keep only the most recent failures', async ({ startClient }, testInfo) => {
+  const outputDir = testInfo.outputPath('output');
+  const client = await startClient({ args: ['--output-dir', outputDir, '--keep-failures', '2'] });
+  await client.callTool({ name: 'browser_navigate', arguments: { url: page } });
+
+  const directories: string[] = [];
+  for (let i = 0; i < 3; i++)
+    directories.push(path.basename((await failClick(client)).content[1].text.match(/^Failure details saved to (.*)$/)[1]));
+  expect((await fs.promises.readdir(path.join(outputDir, 'failures'))).sort()).toEqual(directories.slice(1));
+});
@@ -0,0 +1,516 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import crypto from 'crypto';
+import http from 'http';
+
+import type { AddressInfo } from 'net';
+
+export type FakeQuestion = {
+  name: string;
+  label: string;
+  type: 'text' | 'textarea' | 'radio' | 'checkbox' | 'select' | 'file';
+  choices?: string[];
+  accept?: string;
+  required?: boolean;
+};
+
+export type FakeSlide = {
+  title: string;
+  body?: string;
+  questions?: FakeQuestion[];
+  /**
+   * Deadline shown above the questions, as the site prints it.
+   */
+  deadline?: string;
+};
+
+export type FakeLecture = {
+  id: string;
+  title: string;
+  slides: FakeSlide[];
+  /**
+   * Label shown next to the lecture in the sidebar. Lectures with questions
+   * show whether their answers have been saved by default.
+   */
+  status?: string;
+};
+
+export type FakeSection = {
+  title: string;
+  lectures: FakeLecture[];
+};
+
+export type FakeCourse = {
+  year: string;
+  id: string;
+  title: string;
+  sections: FakeSection[];
+};
+
+export type FakeAnswers = Record<string, string | string[]>;
+
+export const savedMessage = 'すべての回答を保存しました。\nAll your answers have been saved.';
+
+/**
+ * A minimal stand-in for INIAD MOOCs and the INIAD ID Manager, serving just
+ * the markup the INIAD tools scrape. Both sites run on the same port and are
+ * told apart by the Host header, so they get separate cookie jars like the
+ * real ones: MOOCs is served as localhost, the ID Manager as 127.0.0.1.
+ */
+export class FakeMoocs {
+  readonly username = 's1f102400000';
+  readonly password = 'correct-horse-battery';
+  courses: FakeCourse[] = defaultCourses();
+  /**
+   * Alert shown after saving answers, or undefined to save without an alert.
+   */
+  submissionMessage: string | undefined = savedMessage;
+  /**
+   * Tag of the course title headings, to simulate a markup change.
+   */
+  courseHeadingTag = 'h4';
+  /**
+   * Saved answers keyed by the slide path.
+   */
+  readonly submissions = new Map<string, FakeAnswers>();
+  /**
+   * Names of answers that are accepted but not saved, to simulate a lost upload.
+   */
+  readonly droppedAnswers = new Set<string>();
+  /**
+   * Whether saving answers ends the session, as if it had timed out right after.
+   */
+  expireSessionsOnSubmit = false;
+  /**
+   * Number of successful logins through the ID Manager form.
+   */
+  logins = 0;
+  /**
+   * Files served to logged in users, by path.
+   */
+  files = new Map<string, { contentType: string, body: string | Buffer }>();
+
+  private _server: http.Server;
+  private _sessions = new Set<string>();
+  private _tickets = new Set<string>();
+
+  static async start(): Promise<FakeMoocs> {
+    const moocs = new FakeMoocs();
+    await new Promise<void>(resolve => moocs._server.listen(0, resolve));
+    return moocs;
+  }
+
+  private constructor() {
+    this._server = http.createServer((request, response) => {
+      this._handle(request, response).catch(error => {
+        response.statusCode = 500;
+        response.end(String(error));
+      });
+    });
+  }
+
+  get port(): number {
+    return (this._server.address() as AddressInfo).port;
+  }
+
+  get baseUrl(): string {
+    return `http://localhost:${this.port}`;
+  }
+
+  get idManagerHost(): string {
+    return `127.0.0.1:${this.port}`;
+  }
+
+  url(path: string): string {
+    return this.baseUrl + path;
+  }
+
+  /**
+   * Command line arguments pointing the server at this site.
+   */
+  args(): string[] {
+    return ['--base-url', this.baseUrl, '--id-manager-host', this.idManagerHost];
+  }
+
+  /**
+   * Environment with the credentials the ID Manager accepts.
+   */
+  env(): Record<string, string> {
+    return { INIAD_USERNAME: this.username, INIAD_PASSWORD: this.password };
+  }
+
+  /**
+   * Invalidates all MOOCs sessions, as if they had timed out on the server.
+   */
+  expireSessions() {
+    this._sessions.clear();
+  }
+
+  async stop() {
+    this._server.closeAllConnections();
+    await new Promise(resolve => this._server.close(resolve));
+  }
+
+  private async _handle(request: http.IncomingMessage, response: http.ServerResponse) {
+    const url = new URL(request.url!, `http://${request.headers.host}`);
+    if (request.headers.host === this.idManagerHost)
+      await this._handleIdManager(request, response, url);
+    else
+      await this._handleMoocs(request, response, url);
+  }
+
+  private async _handleIdManager(request: http.IncomingMessage, response: http.ServerResponse, url: URL) {
+    if (url.pathname !== '/login')
+      return notFound(response);
+
+    let next = url.searchParams.get('next') ?? this.url('/auth/callback');
+    let error = '';
+    if (request.method === 'POST') {
+      const form = new URLSearchParams(await readBody(request));
+      next = form.get('next') ?? next;
+      if (form.get('username') === this.username && form.get('password') === this.password) {
+        this.logins++;
+        const ticket = crypto.randomUUID();
+        this._tickets.add(ticket);
+        return redirect(response, `${next}?ticket=${ticket}`);
+      }
+      error = '<p class="alert alert-danger">ユーザー名またはパスワードが正しくありません。</p>';
+    }
+
+    html(response, 'INIAD ID Manager', `
+      <h1>INIAD ID Manager</h1>
+      ${error}
+      <form method="post" action="/login">
+        <input type="hidden" name="next" value="${escape(next)}">
+        <label>Username <input id="username" name="username" type="text"></label>
+        <label>Password <input id="password" name="password" type="password"></label>
+        <input type="submit" value="LOG IN">
+      </form>`);
+  }
+
+  private async _handleMoocs(request: http.IncomingMessage, response: http.ServerResponse, url: URL) {
+    if (url.pathname === '/auth/iniad')
+      return redirect(response, `http://${this.idManagerHost}/login?next=${encodeURIComponent(this.url('/auth/callback'))}`);
+
+    if (url.pathname === '/auth/callback') {
+      const ticket = url.searchParams.get('ticket') ?? '';
+      if (!this._tickets.delete(ticket))
+        return redirect(response, '/');
+      const session = crypto.randomUUID();
+      this._sessions.add(session);
+      // The banner cookie expires long before the session, like the cookies of analytics scripts.
+      response.setHeader('Set-Cookie', [`sessionid=${session}; Path=/; Max-Age=3600; HttpOnly`, 'banner_seen=1; Path=/; Max-Age=60']);
+      return redirect(response, '/courses');
+    }
+
+    const loggedIn = this._sessions.has(readCookie(request, 'sessionid') ?? '');
+    if (url.pathname === '/') {
+      if (!loggedIn)
+        return html(response, 'INIAD MOOCs', '<a class="btn btn-primary" href="/auth/iniad">Sign in with INIAD Account</a>');
+      return this._page(response, 'INIAD MOOCs', undefined, '<h1>INIAD MOOCs</h1>');
+    }
+    if (!loggedIn)
+      return redirect(response, '/');
+
+    const file = this.files.get(url.pathname);
+    if (file) {
+      response.setHeader('Content-Type', file.contentType);
+      response.end(file.body);
+      return;
+    }
+
+    const segments = url.pathname.split('/').filter(Boolean);
+    if (segments[0] !== 'courses')
+      return notFound(response);
+
+    if (segments.length === 1)
+      return this._page(response, 'Courses', undefined, this._courseList());
+
+    const course = this.courses.find(course => course.year === segments[1] && course.id === segments[2]);
+    if (!course)
+      return notFound(response);
+    if (segments.length === 3)
+      return this._page(response, course.title, course, `<h1>${escape(course.title)}</h1>`);
+
+    const lecture = course.sections.flatMap(section => section.lectures).find(lecture => lecture.id === segments[3]);
+    if (!lecture)
+      return notFound(response);
+    const slideNumber = segments[4] ? Number(segments[4]) : 1;
+    const slide = lecture.slides[slideNumber - 1];
+    if (!slide || segments.length > 6 || (segments[5] && segments[5] !== 'answers'))
+      return notFound(response);
+
+    const slidePath = `/courses/${course.year}/${course.id}/${lecture.id}/${slideNumber}`;
+    if (segments[5] === 'answers') {
+      if (request.method !== 'POST')
+        return notFound(response);
+      const answers: FakeAnswers = JSON.parse(await readBody(request));
+      for (const name of this.droppedAnswers)
+        delete answers[name];
+      this.submissions.set(slidePath, answers);
+      if (this.expireSessionsOnSubmit)
+        this.expireSessions();
+      response.setHeader('Content-Type', 'text/plain; charset=utf-8');
+      response.end(this.submissionMessage ?? '');
+      return;
+    }
+    this._page(response, slide.title, course, this._lecture(course, lecture, slideNumber, slidePath));
+  }
+
+  private _courseList(): string {
+    return this.courses.map(course => `
+      <div class="col-md-4">
+        <div class="box">
+          <${this.courseHeadingTag}>${escape(course.title)}</${this.courseHeadingTag}>
+          <p>${course.year}</p>
+          <a class="btn btn-default" href="/courses/${course.year}/${course.id}">View Course</a>
+        </div>
+      </div>`).join('');
+  }
+
+  private _sidebar(course: FakeCourse): string {
+    const sections = course.sections.map(section => `
+      <li class="treeview">
+        <a href="#"><span>${escape(section.title)}</span></a>
+        <ul class="treeview-menu">
+          ${section.lectures.map(lecture => `<li><a href="/courses/${course.year}/${course.id}/${lecture.id}">${escape(lecture.title)}${this._status(course, lecture)}</a></li>`).join('\n')}
+        </ul>
+      </li>`).join('');
+    return `
+      <aside class="main-sidebar">
+        <section class="sidebar">
+          <ul class="sidebar-menu">
+            <li><a href="/courses/bookmarks">Bookmarks</a></li>
+            ${sections}
+          </ul>
+        </section>
+      </aside>`;
+  }
+
+  private _status(course: FakeCourse, lecture: FakeLecture): string {
+    let status = lecture.status;
+    if (status === undefined && lecture.slides.some(slide => slide.questions)) {
+      const lecturePath = `/courses/${course.year}/${course.id}/${lecture.id}/`;
+      status = [...this.submissions.keys()].some(path => path.startsWith(lecturePath)) ? '提出済み' : '未提出';
+    }
+    if (!status)
+      return '';
+    return ` <span class="pull-right-container"><small class="label pull-right bg-green">${escape(status)}</small></span>`;
+  }
+
+  private _lecture(course: FakeCourse, lecture: FakeLecture, slideNumber: number, slidePath: string): string {
+    const lectureUrl = `/courses/${course.year}/${course.id}/${lecture.id}`;
+    const pages = lecture.slides.map((slide, index) => `
+      <li${index + 1 === slideNumber ? ' class="active"' : ''}><a href="${lectureUrl}/${index + 1}" title="${escape(slide.title)}">${index + 1}</a></li>`).join('');
+    const slide = lecture.slides[slideNumber - 1];
+    return `
+      <h1>${escape(lecture.title)}</h1>
+      <nav aria-label="page navigation">
+        <ul class="pagination">
+          ${pages}
+        </ul>
+      </nav>
+      <h2>${escape(slide.title)}</h2>
+      ${slide.deadline ? `<p class="deadline">提出期限: ${escape(slide.deadline)}</p>` : ''}
+      ${slide.body ?? ''}
+      ${slide.questions ? this._problem(slide.questions, slidePath) : ''}`;
+  }
+
+  private _problem(questions: FakeQuestion[], slidePath: string): string {
+    const saved = this.submissions.get(slidePath) ?? {};
+    const fields = questions.map(question => {
+      const value = saved[question.name];
+      const values = Array.isArray(value) ? value : value === undefined ? [] : [value];
+      const required = question.required ? ' required' : '';
+      switch (question.type) {
+        case 'text':
+          return `<div class="form-group"><label for="${question.name}">${escape(question.label)}</label><input type="text" id="${question.name}" name="${question.name}" value="${escape(values.join(''))}"${required}></div>`;
+        case 'textarea':
+          return `<div class="form-group"><label>${escape(question.label)} <textarea name="${question.name}"${required}>${escape(values.join(''))}</textarea></label></div>`;
+        case 'radio':
+        case 'checkbox':
+          return `<div class="form-group"><p>${escape(question.label)}</p>${question.choices!.map(choice => `
+            <label><input type="${question.type}" name="${question.name}" value="${escape(choice)}"${values.includes(choice) ? ' checked' : ''}${required}> ${escape(choice)}</label>`).join('')}</div>`;
+        case 'select':
+          return `<div class="form-group"><p>${escape(question.label)}</p><select name="${question.name}"${required}>${question.choices!.map(choice => `
+            <option value="${escape(choice)}"${values.includes(choice) ? ' selected' : ''}>${escape(choice)}</option>`).join('')}</select></div>`;
+        case 'file':
+          const files = values.length ? `<p class="uploaded">提出済み: ${values.map(escape).join(', ')}</p>` : '';
+          const accept = question.accept ? ` accept="${question.accept}"` : '';
+          return `<div class="form-group"><label>${escape(question.label)} <input type="file" name="${question.name}"${accept}${required}></label>${files}</div>`;
+      }
+    }).join('\n');
+    return `
+      <form class="problem-form" action="${slidePath}/answers">
+        ${fields}
+        <button type="submit" class="btn btn-primary">回答を保存</button>
+      </form>
+      <script>
+        const form = document.querySelector('form.problem-form');
+        form.addEventListener('submit', async event => {
+          event.preventDefault();
+          const answers = {};
+          for (const element of form.elements) {
+            if (!element.name)
+              continue;
+            if (element.type === 'file')
+              answers[element.name] = [...element.files].map(file => file.name);
+            else if (element.type === 'checkbox')
+              answers[element.name] = [...(answers[element.name] ?? []), ...(element.checked ? [element.value] : [])];
+            else if (element.type === 'radio')
+              answers[element.name] = element.checked ? element.value : answers[element.name] ?? '';
+            else
+              answers[element.name] = element.value;
+          }
+          const response = await fetch(form.getAttribute('action'), { method: 'POST', body: JSON.stringify(answers) });
+          const message = await response.text();
+          if (message)
+            alert(message);
+        });
+      </script>`;
+  }
+
+  private _page(response: http.ServerResponse, title: string, course: FakeCourse | undefined, content: string) {
+    html(response, title, `
+      <header class="main-header">
+        <nav class="navbar navbar-static-top">
+          <a href="#" class="sidebar-toggle" role="button">Toggle navigation</a>
+          <ul class="nav navbar-nav">
+            <li class="dropdown user user-menu"><a href="#"><span class="hidden-xs">${this.username}</span></a></li>
+          </ul>
+        </nav>
+      </header>
+      ${course ? this._sidebar(course) : ''}
+      <div class="content-wrapper">
+        <section class="content">
+          ${content}
+        </section>
+      </div>`);
+  }
+}
+
+function defaultCourses(): FakeCourse[] {
+  return [
+    {
+      year: '2025',
+      id: 'CS101',
+      title: 'コンピュータ・サイエンス入門',
+      sections: [
+        {
+          title: '第1回 イントロダクション',
+          lectures: [
+            {
+              id: '01-intro',
+              title: '1-1 講義概要',
+              slides: [
+                { title: '講義の進め方', body: '<p>この講義では計算機の基礎を学びます。</p>' },
+                { title: '成績評価', body: '<p>毎回の課題で評価します。</p>' },
+                {
+                  title: '演習課題',
+                  questions: [
+                    { name: 'q1', label: '自己紹介を書いてください', type: 'textarea' },
+                    { name: 'q2', label: 'レポートを提出してください', type: 'file' },
+                  ],
+                },
+              ],
+            },
+            {
+              id: '01-setup',
+              title: '1-2 環境構築',
+              slides: [
+                { title: 'エディタのインストール' },
+              ],
+              status: '採点済み 8/10',
+            },
+          ],
+        },
+        {
+          title: '第2回 プログラミングの基礎',
+          lectures: [
+            {
+              id: '02-basics',
+              title: '2-1 変数と型',
+              slides: [
+                { title: '変数' },
+                { title: '型' },
+                {
+                  title: '確認テスト',
+                  questions: [
+                    { name: 'name', label: '変数名を答えてください', type: 'text', required: true },
+                    { name: 'type', label: '整数を表す型はどれですか', type: 'radio', choices: ['int', 'str', 'float'] },
+                    { name: 'immutable', label: 'イミュータブルな型をすべて選んでください', type: 'checkbox', choices: ['tuple', 'list', 'str'] },
+                    { name: 'level', label: '理解度', type: 'select', choices: ['よく分かった', '分かった', '分からなかった'] },
+                    { name: 'notebook', label: 'ノートブックを提出してください', type: 'file', accept: '.ipynb,.html', required: true },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    },
+    {
+      year: '2025',
+      id: 'PR201',
+      title: 'プログラミング演習',
+      sections: [
+        {
+          title: '第1回 ガイダンス',
+          lectures: [
+            { id: '01-guidance', title: '1-1 ガイダンス', slides: [{ title: 'ガイダンス' }] },
+          ],
+        },
+      ],
+    },
+  ];
+}
+
+function html(response: http.ServerResponse, title: string, body: string) {
+  response.setHeader('Content-Type', 'text/html; charset=utf-8');
+  response.end(`<!DOCTYPE html><html><head><meta charset="utf-8"><title>${escape(title)}</title></head><body>${body}</body></html>`);
+}
+
+function redirect(response: http.ServerResponse, location: string) {
+  response.statusCode = 302;
+  response.setHeader('Location', location);
+  response.end();
+}
+
+function notFound(response: http.ServerResponse) {
+  response.statusCode = 404;
+  html(response, 'Not Found', '<h1>404 Not Found</h1>');
+}
+
+async function readBody(request: http.IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request)
+    chunks.push(chunk);
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+function readCookie(request: http.IncomingMessage, name: string): string | undefined {
+  for (const cookie of (request.headers.cookie ?? '').split(';')) {
+    const [key, ...value] = cookie.trim().split('=');
+    if (key === name)
+      return value.join('=');
+  }
+  return undefined;
+}
+
+function escape(text: string): string {
+  return text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', '\'': '&#39;' }[c]!));
+}
@@ -18,15 +18,19 @@ import path from 'path';
 import { chromium } from 'playwright';
 
 import { test as baseTest, expect as baseExpect } from '@playwright/test';
-import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StdioClientTransport, getDefaultEnvironment } from '@modelcontextprotocol/sdk/client/stdio.js';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 
+import { FakeMoocs } from './fakeMoocs';
+
 type Fixtures = {
   client: Client;
   visionClient: Client;
-  startClient: (options?: { args?: string[] }) => Promise<Client>;
+  startClient: (options?: { args?: string[], env?: Record<string, string>, headless?: boolean }) => Promise<Client>;
   wsEndpoint: string;
   cdpEndpoint: string;
+  moocs: FakeMoocs;
+  moocsClient: Client;
 };
 
 export const test = baseTest.extend<Fixtures>({
@@ -41,23 +45,29 @@ export const test = baseTest.extend<Fixtures>({
 
   startClient: async ({ }, use, testInfo) => {
     const userDataDir = testInfo.outputPath('user-data-dir');
-    let client: StdioClientTransport | undefined;
+    const clients: Client[] = [];
 
-    use(async options => {
-      const args = ['--headless', '--user-data-dir', userDataDir];
+    await use(async options => {
+      // Failure bundles and traces stay with the test instead of the shared temporary directory.
+      const args = ['--user-data-dir', userDataDir, '--output-dir', testInfo.outputPath('output')];
+      if (options?.headless !== false)
+        args.unshift('--headless');
       if (options?.args)
         args.push(...options.args);
       const transport = new StdioClientTransport({
         command: 'node',
         args: [path.join(__dirname, '../cli.js'), ...args],
+        env: options?.env ? { ...getDefaultEnvironment(), ...options.env } : undefined,
       });
       const client = new Client({ name: 'test', version: '1.0.0' });
+      clients.push(client);
       await client.connect(transport);
       await client.ping();
       return client;
     });
 
-    await client?.close();
+    for (const client of clients)
+      await client.close();
   },
 
   wsEndpoint: async ({ }, use) => {
@@ -75,6 +85,16 @@ export const test = baseTest.extend<Fixtures>({
     await use(`http://localhost:${port}`);
     await browser.close();
   },
+
+  moocs: async ({ }, use) => {
+    const moocs = await FakeMoocs.start();
+    await use(moocs);
+    await moocs.stop();
+  },
+
+  moocsClient: async ({ moocs, startClient }, use) => {
+    await use(await startClient({ args: moocs.args(), env: moocs.env() }));
+  },
 });
 
 type Response = Awaited<ReturnType<Client['callTool']>>;
@@ -0,0 +1,42 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { test, expect } from './fixtures';
+
+test('report a missing browser at startup', async ({ startClient }) => {
+  const client = await startClient({ args: ['--browser', 'msedge'] });
+  const message = /^Browser "msedge" is not installed.*\. To install it, call the browser_install tool or run "npx playwright install msedge" in a terminal\.$/;
+  expect(client.getInstructions()).toMatch(message);
+
+  const response = await client.callTool({ name: 'browser_navigate', arguments: { url: 'data:text/html,<title>Title</title>' } });
+  expect(response).toHaveTextContent(message);
+  expect(response.isError).toBe(true);
+});
+
+test('report a missing browser without the install capability', async ({ startClient }) => {
+  const client = await startClient({ args: ['--browser', 'msedge', '--caps', 'core'] });
+  expect(client.getInstructions()).toMatch(/To install it, run "npx playwright install msedge" in a terminal\.$/);
+});
+
+test('report a missing executable', async ({ startClient }) => {
+  const client = await startClient({ args: ['--executable-path', '/nonexistent/chrome'] });
+  expect(await client.callTool({ name: 'browser_navigate', arguments: { url: 'data:text/html,<title>Title</title>' } })).toHaveTextContent(
+      'The browser executable doesn\'t exist at /nonexistent/chrome. Check the --executable-path option.');
+});
+
+test('no instructions when the browser is installed', async ({ client }) => {
+  expect(client.getInstructions()).toBeUndefined();
+});
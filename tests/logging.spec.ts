@@ -0,0 +1,63 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+
+import { LoggingMessageNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+
+import { test, expect } from './fixtures';
+
+test('write the log to a file as JSON lines', async ({ startClient, moocs }, testInfo) => {
+  const logFile = testInfo.outputPath('logs', 'server.log');
+  const client = await startClient({ args: [...moocs.args(), '--log-file', logFile, '--log-level', 'debug'], env: moocs.env() });
+  await client.callTool({ name: 'listCourses' });
+
+  const records = (await fs.promises.readFile(logFile, 'utf-8')).trim().split('\n').map(line => JSON.parse(line));
+  expect(records).toContainEqual({
+    time: expect.any(String),
+    level: 'info',
+    logger: 'listCourses',
+    message: expect.stringMatching(/^Found \d+ courses\.$/),
+  });
+  expect(records).toContainEqual(expect.objectContaining({ level: 'debug', logger: 'listCourses' }));
+});
+
+test('keep stdout free of log lines', async ({ startClient }) => {
+  const client = await startClient({ args: ['--log-level', 'debug'] });
+  const errors: Error[] = [];
+  client.onerror = error => errors.push(error);
+  await client.callTool({ name: 'browser_navigate', arguments: { url: 'data:text/html,<title>Title</title>' } });
+  expect(errors).toEqual([]);
+});
+
+test('forward the log to the client', async ({ startClient }) => {
+  const client = await startClient();
+  const messages: any[] = [];
+  client.setNotificationHandler(LoggingMessageNotificationSchema, notification => {
+    messages.push(notification.params);
+  });
+
+  await client.callTool({ name: 'browser_navigate', arguments: { url: 'data:text/html,<title>Title</title>' } });
+  expect(messages.filter(message => message.level === 'debug')).toEqual([]);
+
+  await client.setLoggingLevel('debug');
+  await client.callTool({ name: 'browser_navigate', arguments: { url: 'data:text/html,<title>Title</title>' } });
+  expect(messages).toContainEqual({
+    level: 'debug',
+    logger: 'navigate',
+    data: 'Navigating to data:text/html,<title>Title</title>, capture snapshot: true',
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { test, expect } from './fixtures';
+
+test('login', async ({ moocsClient, moocs }, testInfo) => {
+  const response = await moocsClient.callTool({ name: 'loginToIniadMoocsWithIniadAccount' });
+  expect(response.isError).toBeFalsy();
+  expect(response).toContainTextContent([
+    `Logged in, session saved to ${testInfo.outputPath('user-data-dir', 'iniad-moocs-storage-state.json')}.`,
+    '"title": "コンピュータ・サイエンス入門"',
+  ]);
+  expect(moocs.logins).toBe(1);
+
+  expect(await moocsClient.callTool({
+    name: 'loginToIniadMoocsWithIniadAccount',
+  })).toHaveTextContent(/^Already logged in, reusing the session saved/);
+  expect(moocs.logins).toBe(1);
+});
+
+test('login with a wrong password', async ({ startClient, moocs }) => {
+  const client = await startClient({
+    args: moocs.args(),
+    env: { ...moocs.env(), INIAD_PASSWORD: 'wrong' },
+  });
+  const response = await client.callTool({ name: 'loginToIniadMoocsWithIniadAccount' });
+  expect(response.isError).toBe(true);
+  expect(response).toHaveTextContent(/^Login failed: /);
+  expect(moocs.logins).toBe(0);
+});
+
+test('reuse the saved session in a new browser', async ({ startClient, moocs }, testInfo) => {
+  const storageState = testInfo.outputPath('session.json');
+  const first = await startClient({ args: [...moocs.args(), '--storage-state', storageState], env: moocs.env() });
+  expect(await first.callTool({
+    name: 'loginToIniadMoocsWithIniadAccount',
+  })).toHaveTextContent(`Logged in, session saved to ${storageState}.`);
+  await first.close();
+
+  const second = await startClient({
+    args: [...moocs.args(), '--storage-state', storageState, '--user-data-dir', testInfo.outputPath('other-user-data-dir')],
+    env: moocs.env(),
+  });
+  expect(await second.callTool({
+    name: 'loginToIniadMoocsWithIniadAccount',
+  })).toHaveTextContent(/^Already logged in, reusing the session saved .* ago \(.*session\.json\)\./);
+  expect(moocs.logins).toBe(1);
+});
+
+test('log in again when the session expires', async ({ moocsClient, moocs }) => {
+  await moocsClient.callTool({ name: 'loginToIniadMoocsWithIniadAccount' });
+  moocs.expireSessions();
+
+  const response = await moocsClient.callTool({
+    name: 'browser_navigate',
+    arguments: { url: moocs.url('/courses/2025/CS101') },
+  });
+  expect(response.isError).toBeFalsy();
+  expect(response).toContainTextContent([
+    '"sourceTool":"listLectures"',
+    `- Page URL: ${moocs.url('/courses/2025/CS101')}`,
+  ]);
+  expect(moocs.logins).toBe(2);
+});
+
+test('login status and logout', async ({ moocsClient, moocs }) => {
+  await moocsClient.callTool({ name: 'loginToIniadMoocsWithIniadAccount' });
+  await moocsClient.callTool({ name: 'browser_navigate', arguments: { url: moocs.url('/courses/2025/CS101') } });
+  const status = await moocsClient.callTool({ name: 'moocs_login_status' });
+  const result = JSON.parse((status.content as any)[0].text);
+  expect(result).toEqual({
+    profile: 'default',
+    loggedIn: true,
+    userId: moocs.username,
+    sessionExpiresAt: expect.any(String),
+    sessionSavedAt: expect.any(String),
+  });
+  // The expiry is the one of the session cookie, not of the short-lived banner cookie.
+  expect(Date.parse(result.sessionExpiresAt) - Date.now()).toBeGreaterThan(30 * 60 * 1000);
+  // The check does not take the current tab away from the page it was on.
+  expect(await moocsClient.callTool({ name: 'browser_tab_list' })).toHaveTextContent(`Open tabs:
+- 1: (current) [コンピュータ・サイエンス入門] (${moocs.url('/courses/2025/CS101')})`);
+
+  await moocsClient.callTool({ name: 'moocs_logout' });
+  const loggedOut = await moocsClient.callTool({ name: 'moocs_login_status' });
+  expect(JSON.parse((loggedOut.content as any)[0].text)).toEqual({
+    profile: 'default',
+    loggedIn: false,
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { test, expect } from './fixtures';
+
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+
+async function callJson(client: Client, name: string, args?: Record<string, unknown>) {
+  const response = await client.callTool({ name, arguments: args });
+  expect(response.isError).toBeFalsy();
+  return JSON.parse((response.content as any)[0].text);
+}
+
+test('listCourses', async ({ moocsClient, moocs }) => {
+  expect(await callJson(moocsClient, 'listCourses')).toEqual({
+    courses: [
+      { id: 'CS101', title: 'コンピュータ・サイエンス入門', url: moocs.url('/courses/2025/CS101') },
+      { id: 'PR201', title: 'プログラミング演習', url: moocs.url('/courses/2025/PR201') },
+    ],
+  });
+  expect(moocs.logins).toBe(1);
+});
+
+test('listLectureLinks', async ({ moocsClient, moocs }) => {
+  const navigated = await moocsClient.callTool({
+    name: 'browser_navigate',
+    arguments: { url: moocs.url('/courses/2025/CS101') },
+  });
+  expect(navigated).toHaveTextContent(/"sourceTool":"listLectures"/);
+
+  expect(await callJson(moocsClient, 'listLectureLinks')).toEqual({
+    sections: [
+      {
+        index: 1,
+        title: '第1回 イントロダクション',
+        lectures: [
+          { index: 1, id: '2025/CS101/01-intro', title: '1-1 講義概要', url: moocs.url('/courses/2025/CS101/01-intro'), status: 'unsubmitted' },
+          { index: 2, id: '2025/CS101/01-setup', title: '1-2 環境構築', url: moocs.url('/courses/2025/CS101/01-setup'), status: 'graded', score: '8/10' },
+        ],
+      },
+      {
+        index: 2,
+        title: '第2回 プログラミングの基礎',
+        lectures: [
+          { index: 1, id: '2025/CS101/02-basics', title: '2-1 変数と型', url: moocs.url('/courses/2025/CS101/02-basics'), status: 'unsubmitted' },
+        ],
+      },
+    ],
+  });
+});
+
+test('listLectureLinks with pages', async ({ moocsClient, moocs }) => {
+  await moocsClient.callTool({
+    name: 'browser_navigate',
+    arguments: { url: moocs.url('/courses/2025/CS101') },
+  });
+
+  const { sections } = await callJson(moocsClient, 'listLectureLinks', { status: 'unsubmitted', includePages: true });
+  expect(sections.map(section => [section.index, section.lectures.map(lecture => lecture.id)])).toEqual([
+    [1, ['2025/CS101/01-intro']],
+    [2, ['2025/CS101/02-basics']],
+  ]);
+  expect(sections[0].lectures[0].pages).toEqual([
+    { index: 1, id: '2025/CS101/01-intro/1', title: '講義の進め方', url: moocs.url('/courses/2025/CS101/01-intro/1') },
+    { index: 2, id: '2025/CS101/01-intro/2', title: '成績評価', url: moocs.url('/courses/2025/CS101/01-intro/2') },
+    { index: 3, id: '2025/CS101/01-intro/3', title: '演習課題', url: moocs.url('/courses/2025/CS101/01-intro/3') },
+  ]);
+
+  // The tab is back on the course page afterwards.
+  expect((await callJson(moocsClient, 'listLectureLinks')).sections).toHaveLength(2);
+});
+
+test('listLectureLinks by submission status', async ({ moocsClient, moocs }) => {
+  moocs.courses[0].sections[1].lectures[0].status = '提出済み';
+  moocs.courses[0].sections[0].lectures[1].status = '85点';
+  await moocsClient.callTool({
+    name: 'browser_navigate',
+    arguments: { url: moocs.url('/courses/2025/CS101') },
+  });
+
+  const lectures = async (status: string) => (await callJson(moocsClient, 'listLectureLinks', { status })).sections.flatMap(section => section.lectures.map(lecture => [section.index, lecture.id, lecture.score]));
+  expect(await lectures('unsubmitted')).toEqual([[1, '2025/CS101/01-intro', undefined]]);
+  expect(await lectures('submitted')).toEqual([[2, '2025/CS101/02-basics', undefined]]);
+  expect(await lectures('graded')).toEqual([[1, '2025/CS101/01-setup', '85点']]);
+});
+
+test('listSlideLinks', async ({ moocsClient, moocs }) => {
+  const navigated = await moocsClient.callTool({
+    name: 'browser_navigate',
+    arguments: { url: moocs.url('/courses/2025/CS101/01-intro/2') },
+  });
+  expect(navigated).toHaveTextContent(/"sourceTool":"listSlides"/);
+
+  expect(await callJson(moocsClient, 'listSlideLinks')).toEqual({
+    slides: [
+      { slideNumber: '1', title: '講義の進め方', url: moocs.url('/courses/2025/CS101/01-intro/1') },
+      { slideNumber: '2', title: '成績評価', url: moocs.url('/courses/2025/CS101/01-intro/2') },
+      { slideNumber: '3', title: '演習課題', url: moocs.url('/courses/2025/CS101/01-intro/3') },
+    ],
+  });
+});
+
+test('listSlideLinks outside of a lecture', async ({ moocsClient, moocs }) => {
+  await moocsClient.callTool({
+    name: 'browser_navigate',
+    arguments: { url: moocs.url('/courses/2025/CS101') },
+  });
+  expect(await callJson(moocsClient, 'listSlideLinks')).toEqual({ slides: [] });
+});
+
+test('navigate logs in on demand', async ({ moocsClient, moocs }) => {
+  const navigated = await moocsClient.callTool({
+    name: 'browser_navigate',
+    arguments: { url: moocs.url('/courses/2025/PR201/01-guidance') },
+  });
+  expect(navigated.isError).toBeFalsy();
+  expect(navigated).toContainTextContent([
+    '"sourceTool":"listSlides"',
+    `- Page URL: ${moocs.url('/courses/2025/PR201/01-guidance')}`,
+  ]);
+  expect(moocs.logins).toBe(1);
+});
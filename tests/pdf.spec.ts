@@ -0,0 +1,63 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import { test, expect } from './fixtures';
+
+function countPages(pdf: Buffer) {
+  return pdf.toString('latin1').match(/\/Type\s*\/Page\b(?!s)/g)?.length ?? 0;
+}
+
+test('save the current page as PDF', async ({ startClient, moocs }, testInfo) => {
+  const workspaceDir = testInfo.outputPath('workspace');
+  const client = await startClient({ args: [...moocs.args(), '--workspace-dir', workspaceDir], env: moocs.env() });
+  await client.callTool({ name: 'browser_navigate', arguments: { url: moocs.url('/courses/2025/CS101/01-intro/2') } });
+
+  const file = path.join(workspaceDir, '2025-CS101-01-intro-2.pdf');
+  expect(await client.callTool({ name: 'browser_pdf_save' })).toHaveTextContent(`Saved 1 page as PDF to ${file}`);
+  const pdf = await fs.promises.readFile(file);
+  expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+  expect(countPages(pdf)).toBe(1);
+});
+
+test('save a lecture as PDF', async ({ startClient, moocs }, testInfo) => {
+  const workspaceDir = testInfo.outputPath('workspace');
+  const client = await startClient({ args: [...moocs.args(), '--workspace-dir', workspaceDir], env: moocs.env() });
+  await client.callTool({ name: 'browser_navigate', arguments: { url: moocs.url('/courses/2025/CS101/01-intro/2') } });
+
+  const file = path.join(workspaceDir, 'pdf', 'intro.pdf');
+  expect(await client.callTool({ name: 'browser_pdf_save', arguments: { lecture: true, outputDir: 'pdf', fileName: 'intro' } })).toHaveTextContent(`Saved 3 pages as PDF to ${file}`);
+  expect(countPages(await fs.promises.readFile(file))).toBe(3);
+
+  // The pages are printed in a separate tab, the current one stays where it was.
+  expect(await client.callTool({ name: 'browser_tab_list' })).toHaveTextContent(`Open tabs:
+- 1: (current) [成績評価] (${moocs.url('/courses/2025/CS101/01-intro/2')})`);
+});
+
+test('saving a PDF asks for a headless browser', async ({ startClient }, testInfo) => {
+  const client = await startClient({ args: ['--workspace-dir', testInfo.outputPath('workspace')], headless: false });
+  const response = await client.callTool({ name: 'browser_pdf_save' });
+  expect(response.isError).toBe(true);
+  expect(response).toHaveTextContent(/^Failed to save PDF: Saving PDFs only works in a headless browser. Restart the server with --headless to save PDFs./);
+});
+
+test('pdf capability can be disabled', async ({ startClient }) => {
+  const client = await startClient({ args: ['--caps=tabs'] });
+  const { tools } = await client.listTools();
+  expect(tools.map(tool => tool.name)).not.toContain('browser_pdf_save');
+});
@@ -0,0 +1,62 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+
+import { test, expect } from './fixtures';
+
+test('list and switch profiles', async ({ startClient }, testInfo) => {
+  const configFile = testInfo.outputPath('config.yaml');
+  await fs.promises.writeFile(configFile, [
+    'profiles:',
+    '  student:',
+    '    userDataDir: student-data-dir',
+    '    credentials:',
+    '      type: env',
+    '      usernameEnv: STUDENT_USERNAME',
+    '      passwordEnv: STUDENT_PASSWORD',
+  ].join('\n'));
+  const client = await startClient({ args: ['--config', configFile] });
+
+  const listed = await client.callTool({ name: 'moocs_list_profiles' });
+  expect(JSON.parse((listed.content as any)[0].text)).toEqual({
+    profiles: [
+      expect.objectContaining({ name: 'default', current: true }),
+      expect.objectContaining({ name: 'student', current: false, userDataDir: testInfo.outputPath('student-data-dir') }),
+    ],
+  });
+
+  expect(await client.callTool({
+    name: 'moocs_switch_profile',
+    arguments: { name: 'student' },
+  })).toHaveTextContent('Switched to profile "student"');
+
+  const switched = await client.callTool({ name: 'moocs_list_profiles' });
+  expect(JSON.parse((switched.content as any)[0].text).profiles[1].current).toBe(true);
+
+  expect(await client.callTool({
+    name: 'loginToIniadMoocsWithIniadAccount',
+  })).toHaveTextContent('Login failed: STUDENT_USERNAME and STUDENT_PASSWORD environment variables must be set.');
+});
+
+test('switch to unknown profile', async ({ client }) => {
+  const response = await client.callTool({
+    name: 'moocs_switch_profile',
+    arguments: { name: 'nobody' },
+  });
+  expect(response.isError).toBe(true);
+  expect(response).toHaveTextContent('Error: Profile "nobody" does not exist. Available profiles: default');
+});
@@ -0,0 +1,119 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { test, expect } from './fixtures';
+
+const slideBody = `
+  <p>Python では <strong>変数</strong> に値を代入します。詳しくは<a href="/docs/python">資料</a>を参照してください。</p>
+  <h3>例</h3>
+  <pre><code class="language-python">x = 1
+if x &gt; 0:
+    print("positive")</code></pre>
+  <ul>
+    <li>整数は <code>int</code></li>
+    <li>文字列は <code>str</code>
+      <ul><li>イミュータブル</li></ul>
+    </li>
+  </ul>
+  <img src="/static/memory.png" alt="変数とメモリの図">
+  <table>
+    <tr><th>型</th><th>例</th></tr>
+    <tr><td>int</td><td>1</td></tr>
+  </table>
+  <script>console.log('not content');</script>
+  <iframe title="講義スライド" srcdoc="<h1>第2回 スライド</h1><p>変数は名前付きの箱です。</p>"></iframe>
+  <iframe title="配布資料" src="/static/handout.pdf"></iframe>
+`;
+
+test('readSlide', async ({ moocsClient, moocs }) => {
+  moocs.courses[0].sections[1].lectures[0].slides[0].body = slideBody;
+  const url = moocs.url('/courses/2025/CS101/02-basics/1');
+  expect(await moocsClient.callTool({ name: 'readSlide', arguments: { url } })).toHaveTextContent(`<!-- ${url} -->
+
+# 2-1 変数と型
+
+## 変数
+
+Python では **変数** に値を代入します。詳しくは[資料](${moocs.url('/docs/python')})を参照してください。
+
+### 例
+
+\`\`\`python
+x = 1
+if x > 0:
+    print("positive")
+\`\`\`
+
+- 整数は \`int\`
+- 文字列は \`str\`
+  - イミュータブル
+
+![変数とメモリの図](${moocs.url('/static/memory.png')})
+
+| 型 | 例 |
+| --- | --- |
+| int | 1 |
+
+# 第2回 スライド
+
+変数は名前付きの箱です。
+
+[配布資料](${moocs.url('/static/handout.pdf')})`);
+});
+
+test('readSlide of the current page', async ({ moocsClient, moocs }) => {
+  await moocsClient.callTool({
+    name: 'browser_navigate',
+    arguments: { url: moocs.url('/courses/2025/CS101/01-intro/2') },
+  });
+  expect(await moocsClient.callTool({ name: 'readSlide' })).toHaveTextContent(`<!-- ${moocs.url('/courses/2025/CS101/01-intro/2')} -->
+
+# 1-1 講義概要
+
+## 成績評価
+
+毎回の課題で評価します。`);
+});
+
+test('readLecture', async ({ moocsClient, moocs }) => {
+  const response = await moocsClient.callTool({ name: 'readLecture', arguments: { url: moocs.url('/courses/2025/CS101/01-intro/3') } });
+  const pages = (response.content as any)[0].text.split('\n\n---\n\n');
+  expect(pages.map(page => page.split('\n')[0])).toEqual([
+    `<!-- Page 1/3: 講義の進め方 (${moocs.url('/courses/2025/CS101/01-intro/1')}) -->`,
+    `<!-- Page 2/3: 成績評価 (${moocs.url('/courses/2025/CS101/01-intro/2')}) -->`,
+    `<!-- Page 3/3: 演習課題 (${moocs.url('/courses/2025/CS101/01-intro/3')}) -->`,
+  ]);
+  expect(pages[0]).toContain('この講義では計算機の基礎を学びます。');
+  expect(pages[2]).toContain('自己紹介を書いてください');
+
+  const limited = await moocsClient.callTool({ name: 'readLecture', arguments: { maxPages: 1 } });
+  expect(limited).toHaveTextContent(/^<!-- Page 1\/3: 講義の進め方 [^]*<!-- Stopped after 1 of 3 pages\. -->$/);
+});
+
+test('readSlide descends into the same frames as the snapshot', async ({ moocsClient, moocs }) => {
+  const escape = (html: string) => html.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+  const nested = (level: number): string => level > 5 ? '' : `<p>Frame ${level}</p><iframe title="Frame ${level + 1}" srcdoc="${escape(nested(level + 1))}"></iframe>`;
+  moocs.courses[0].sections[1].lectures[0].slides[0].body = nested(1).replace(/^<p>Frame 1<\/p>/, '');
+  const url = moocs.url('/courses/2025/CS101/02-basics/1');
+
+  await moocsClient.callTool({ name: 'browser_navigate', arguments: { url } });
+  const snapshot = await moocsClient.callTool({ name: 'browser_snapshot' });
+  expect(snapshot).toHaveTextContent(/Frame 2[\s\S]*Frame 3[\s\S]*Frame 4[\s\S]*<could not take iframe snapshot>/);
+  expect(snapshot).not.toHaveTextContent(/paragraph.*Frame 5/);
+
+  const slide = await moocsClient.callTool({ name: 'readSlide', arguments: { url } });
+  expect(slide).toHaveTextContent(/## 変数\n\nFrame 2\n\nFrame 3\n\nFrame 4$/);
+});
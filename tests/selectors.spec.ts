@@ -0,0 +1,50 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+
+import { test, expect } from './fixtures';
+
+test('override a selector from the config file', async ({ startClient, moocs }, testInfo) => {
+  moocs.courseHeadingTag = 'h3';
+  const configFile = testInfo.outputPath('config.yaml');
+  await fs.promises.writeFile(configFile, [
+    'selectors:',
+    '  courses:',
+    '    courseHeading: h3',
+  ].join('\n'));
+  const client = await startClient({ args: [...moocs.args(), '--config', configFile], env: moocs.env() });
+
+  const response = await client.callTool({ name: 'listCourses' });
+  expect(JSON.parse((response.content as any)[0].text).courses.map(course => course.id)).toEqual(['CS101', 'PR201']);
+});
+
+test('default selectors miss changed markup', async ({ moocsClient, moocs }) => {
+  moocs.courseHeadingTag = 'h3';
+  expect(await moocsClient.callTool({
+    name: 'listCourses',
+  })).toHaveTextContent(JSON.stringify({ courses: [] }, null, 2));
+});
+
+test('reject unknown selectors', async ({ startClient }, testInfo) => {
+  const configFile = testInfo.outputPath('config.yaml');
+  await fs.promises.writeFile(configFile, [
+    'selectors:',
+    '  courses:',
+    '    courseTitle: h3',
+  ].join('\n'));
+  await expect(startClient({ args: ['--config', configFile] })).rejects.toThrow();
+});
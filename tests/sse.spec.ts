@@ -16,7 +16,7 @@
 
 import { spawn } from 'node:child_process';
 import path from 'node:path';
-import { test } from './fixtures';
+import { test, expect } from './fixtures';
 
 test('sse transport', async () => {
   const cp = spawn('node', [path.join(__dirname, '../cli.js'), '--port', '0'], { stdio: 'pipe' });
@@ -40,3 +40,46 @@ test('sse transport', async () => {
     cp.kill();
   }
 });
+
+test('sse sessions only get their own log records', async ({}, testInfo) => {
+  const args = ['--port', '0', '--headless', '--user-data-dir', testInfo.outputPath('user-data-dir'), '--output-dir', testInfo.outputPath('output')];
+  const cp = spawn('node', [path.join(__dirname, '../cli.js'), ...args], { stdio: 'pipe' });
+  try {
+    let stdout = '';
+    const url = await new Promise<string>(resolve => cp.stdout?.on('data', data => {
+      stdout += data.toString();
+      const match = stdout.match(/Listening on (http:\/\/.*)/);
+      if (match)
+        resolve(match[1]);
+    }));
+
+    const { SSEClientTransport } = await import('@modelcontextprotocol/sdk/client/sse.js');
+    const { Client } = await import('@modelcontextprotocol/sdk/client/index.js');
+    const { LoggingMessageNotificationSchema } = await import('@modelcontextprotocol/sdk/types.js');
+    const connect = async () => {
+      const client = new Client({ name: 'test', version: '1.0.0' });
+      const messages: any[] = [];
+      client.setNotificationHandler(LoggingMessageNotificationSchema, notification => {
+        messages.push(notification.params);
+      });
+      await client.connect(new SSEClientTransport(new URL(url)));
+      return { client, messages };
+    };
+    const watcher = await connect();
+    const navigator = await connect();
+
+    await watcher.client.setLoggingLevel('debug');
+    await navigator.client.callTool({ name: 'browser_navigate', arguments: { url: 'data:text/html,<title>Title</title>' } });
+    expect(navigator.messages.filter(message => message.level === 'debug')).toEqual([]);
+
+    await navigator.client.setLoggingLevel('debug');
+    await navigator.client.callTool({ name: 'browser_navigate', arguments: { url: 'data:text/html,<title>Title</title>' } });
+    expect(navigator.messages).toContainEqual(expect.objectContaining({ level: 'debug', logger: 'navigate' }));
+    expect(watcher.messages).toEqual([]);
+
+    await watcher.client.close();
+    await navigator.client.close();
+  } finally {
+    cp.kill();
+  }
+});
@@ -0,0 +1,227 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+
+import { test, expect } from './fixtures';
+
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+
+async function openProblem(client: Client, url: string) {
+  const response = await client.callTool({ name: 'browser_navigate', arguments: { url } });
+  const snapshot = (response.content as any).map(c => c.text).join('\n');
+  const ref = (element: string) => snapshot.match(new RegExp(`${element} \\[ref=(\\w+)\\]`))![1];
+  return {
+    answerRef: ref('textbox "自己紹介を書いてください"'),
+    fileRef: ref('textbox "レポートを提出してください"'),
+    submitRef: ref('button "回答を保存"'),
+  };
+}
+
+test('submit_assignment', async ({ moocsClient, moocs }, testInfo) => {
+  const report = testInfo.outputPath('report.pdf');
+  await fs.promises.writeFile(report, 'report');
+  const { answerRef, fileRef, submitRef } = await openProblem(moocsClient, moocs.url('/courses/2025/CS101/01-intro/3'));
+
+  const response = await moocsClient.callTool({
+    name: 'submit_assignment',
+    arguments: {
+      operations: [
+        { action: 'type', ref: answerRef, value: 'INIAD太郎です。', element: '自己紹介' },
+        { action: 'upload', ref: fileRef, value: [report], element: 'レポート' },
+      ],
+      submitButtonRef: submitRef,
+    },
+  });
+  expect(response.isError).toBeFalsy();
+  expect(response).toHaveTextContent(/Dialog "alert" with message "すべての回答を保存しました。\nAll your answers have been saved." accepted automatically/);
+  expect(response).toHaveTextContent(/Saved answers after reloading the page:\n- "自己紹介" \(textbox "自己紹介を書いてください"\): verified "INIAD太郎です。"\n- "レポート" \(textbox "レポートを提出してください"\): verified "report.pdf"$/);
+  expect(moocs.submissions.get('/courses/2025/CS101/01-intro/3')).toEqual({
+    q1: 'INIAD太郎です。',
+    q2: ['report.pdf'],
+  });
+});
+
+test('submit_assignment reports answers that were not saved', async ({ moocsClient, moocs }, testInfo) => {
+  moocs.droppedAnswers.add('q2');
+  const report = testInfo.outputPath('report.pdf');
+  await fs.promises.writeFile(report, 'report');
+  const { answerRef, fileRef, submitRef } = await openProblem(moocsClient, moocs.url('/courses/2025/CS101/01-intro/3'));
+
+  const response = await moocsClient.callTool({
+    name: 'submit_assignment',
+    arguments: {
+      operations: [
+        { action: 'type', ref: answerRef, value: 'INIAD太郎です。', element: '自己紹介' },
+        { action: 'upload', ref: fileRef, value: [report], element: 'レポート' },
+      ],
+      submitButtonRef: submitRef,
+    },
+  });
+  expect(response.isError).toBe(true);
+  expect(response).toHaveTextContent(/- "自己紹介" \(textbox "自己紹介を書いてください"\): verified "INIAD太郎です。"/);
+  expect(response).toHaveTextContent(/- "レポート" \(textbox "レポートを提出してください"\): mismatch, submitted "report.pdf" but the page shows \(nothing\)/);
+});
+
+test('submit_assignment does not ask to submit again when the session expires before the check', async ({ moocsClient, moocs }) => {
+  moocs.expireSessionsOnSubmit = true;
+  const { answerRef, submitRef } = await openProblem(moocsClient, moocs.url('/courses/2025/CS101/01-intro/3'));
+
+  const response = await moocsClient.callTool({
+    name: 'submit_assignment',
+    arguments: {
+      operations: [{ action: 'type', ref: answerRef, value: 'answer' }],
+      submitButtonRef: submitRef,
+    },
+  });
+  expect(response.isError).toBeFalsy();
+  expect(response).toHaveTextContent(/^Successfully performed 1 input operations/);
+  expect(response).toHaveTextContent(/: not verified \(session expired\)/);
+  expect(response).not.toHaveTextContent(/try again/);
+  expect(moocs.submissions.get('/courses/2025/CS101/01-intro/3')).toEqual({ q1: 'answer', q2: [] });
+});
+
+test('submit_assignment verifies choices picked with clicks', async ({ moocsClient, moocs }, testInfo) => {
+  moocs.droppedAnswers.add('type');
+  const notebook = testInfo.outputPath('kadai.ipynb');
+  await fs.promises.writeFile(notebook, '{}');
+  const response = await moocsClient.callTool({ name: 'browser_navigate', arguments: { url: moocs.url('/courses/2025/CS101/02-basics/3') } });
+  const snapshot = (response.content as any).map(c => c.text).join('\n');
+  const ref = (element: string) => snapshot.match(new RegExp(`${element} \\[ref=(\\w+)\\]`))![1];
+
+  const submitted = await moocsClient.callTool({
+    name: 'submit_assignment',
+    arguments: {
+      operations: [
+        { action: 'type', ref: ref('textbox "変数名を答えてください"'), value: 'answer' },
+        { action: 'click', ref: ref('radio "int"'), element: 'int' },
+        { action: 'click', ref: ref('checkbox "tuple"'), element: 'tuple' },
+        { action: 'upload', ref: ref('textbox "ノートブックを提出してください"'), value: [notebook] },
+        { action: 'click', ref: ref('heading "確認テスト" \\[level=2\\]'), element: '確認テスト' },
+      ],
+      submitButtonRef: ref('button "回答を保存"'),
+    },
+  });
+  expect(submitted.isError).toBe(true);
+  expect(submitted).toHaveTextContent(/- "int" \(radio "int"\): mismatch, submitted "checked" but the page shows "not checked"/);
+  expect(submitted).toHaveTextContent(/- "tuple" \(checkbox "tuple"\): verified "checked"/);
+  expect(submitted).toHaveTextContent(/- "確認テスト" \(heading "確認テスト" \[level=2\]\): not verified, the clicked element is not an answer field/);
+  expect(submitted).not.toHaveTextContent(/has no name/);
+});
+
+test('submit_assignment with an unexpected alert', async ({ moocsClient, moocs }) => {
+  moocs.submissionMessage = '提出期限を過ぎています。';
+  const { answerRef, submitRef } = await openProblem(moocsClient, moocs.url('/courses/2025/CS101/01-intro/3'));
+
+  const response = await moocsClient.callTool({
+    name: 'submit_assignment',
+    arguments: {
+      operations: [{ action: 'type', ref: answerRef, value: 'late' }],
+      submitButtonRef: submitRef,
+    },
+  });
+  expect(response.isError).toBe(true);
+  expect(response).toHaveTextContent(/Unexpected dialog message detected: "提出期限を過ぎています。"/);
+});
+
+test('submit_assignment without a confirmation', async ({ moocsClient, moocs }) => {
+  moocs.submissionMessage = undefined;
+  const { answerRef, submitRef } = await openProblem(moocsClient, moocs.url('/courses/2025/CS101/01-intro/3'));
+
+  const response = await moocsClient.callTool({
+    name: 'submit_assignment',
+    arguments: {
+      operations: [{ action: 'type', ref: answerRef, value: 'answer' }],
+      submitButtonRef: submitRef,
+    },
+  });
+  expect(response.isError).toBe(true);
+  expect(response).toHaveTextContent(/Error: No confirmation dialog appeared after clicking submit/);
+});
+
+test('submit_assignment dry run', async ({ moocsClient, moocs }, testInfo) => {
+  const report = testInfo.outputPath('report.pdf');
+  await fs.promises.writeFile(report, 'report');
+  const { answerRef, fileRef, submitRef } = await openProblem(moocsClient, moocs.url('/courses/2025/CS101/01-intro/3'));
+
+  const response = await moocsClient.callTool({
+    name: 'submit_assignment',
+    arguments: {
+      operations: [
+        { action: 'type', ref: answerRef, value: 'INIAD太郎です。', element: '自己紹介' },
+        { action: 'upload', ref: fileRef, value: [report], element: 'レポート' },
+      ],
+      submitButtonRef: submitRef,
+      submitButtonElement: '回答を保存',
+      dryRun: true,
+    },
+  });
+  expect(response.isError).toBeFalsy();
+  const content = response.content as any[];
+  expect(content[0].text).toContain(`Dry run: performed 2 input operations and stopped before clicking "回答を保存" (button "回答を保存"). Nothing was submitted.`);
+  expect(content[0].text).toContain([
+    'Fields as they would be submitted:',
+    '- "自己紹介" (textbox "自己紹介を書いてください"): "INIAD太郎です。"',
+    '- "レポート" (textbox "レポートを提出してください"): report.pdf',
+    '',
+    'The submit button is enabled.',
+  ].join('\n'));
+  expect(content[1]).toEqual({ type: 'image', data: expect.any(String), mimeType: 'image/jpeg' });
+  expect(moocs.submissions.has('/courses/2025/CS101/01-intro/3')).toBe(false);
+});
+
+test('submit_assignment checks every ref before filling in the form', async ({ moocsClient, moocs }) => {
+  const { answerRef } = await openProblem(moocsClient, moocs.url('/courses/2025/CS101/01-intro/3'));
+
+  const response = await moocsClient.callTool({
+    name: 'submit_assignment',
+    arguments: {
+      operations: [{ action: 'type', ref: answerRef, value: 'answer', element: '自己紹介' }],
+      submitButtonRef: 's1e999',
+      submitButtonElement: '回答を保存',
+    },
+  });
+  expect(response.isError).toBe(true);
+  expect(response).toHaveTextContent(/Ref s1e999 for "回答を保存" is not in the current page snapshot/);
+  expect(response).not.toHaveTextContent(/Typed "answer"/);
+  expect(moocs.submissions.size).toBe(0);
+});
+
+test('submit_assignment only does dry runs in read-only mode', async ({ moocs, startClient }) => {
+  const client = await startClient({ args: [...moocs.args(), '--read-only'], env: moocs.env() });
+  const { answerRef, submitRef } = await openProblem(client, moocs.url('/courses/2025/CS101/01-intro/3'));
+
+  const response = await client.callTool({
+    name: 'submit_assignment',
+    arguments: {
+      operations: [{ action: 'type', ref: answerRef, value: 'answer' }],
+      submitButtonRef: submitRef,
+    },
+  });
+  expect(response.isError).toBeFalsy();
+  expect(response).toHaveTextContent(/^Dry run \(the server is read-only\): performed 1 input operations/);
+  expect(moocs.submissions.size).toBe(0);
+});
+
+test('browser_click does not submit forms in read-only mode', async ({ moocs, startClient }) => {
+  const client = await startClient({ args: [...moocs.args(), '--read-only'], env: moocs.env() });
+  const { submitRef } = await openProblem(client, moocs.url('/courses/2025/CS101/01-intro/3'));
+
+  const clicked = await client.callTool({ name: 'browser_click', arguments: { element: '回答を保存', ref: submitRef } });
+  expect(clicked.isError).toBe(true);
+  expect(clicked).toHaveTextContent(/Clicking .* would submit a form, and the server is read-only/);
+  expect(moocs.submissions.size).toBe(0);
+});
@@ -0,0 +1,110 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+
+import { test, expect } from './fixtures';
+
+const page = `data:text/html,<title>Title</title><button>Submit</button>`;
+
+/**
+ * Reads the entries of a zip file through its central directory.
+ */
+function readZipEntries(file: string): Map<string, Buffer> {
+  const zip = fs.readFileSync(file);
+  const end = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const entries = new Map<string, Buffer>();
+  let offset = zip.readUInt32LE(end + 16);
+  for (let i = 0; i < zip.readUInt16LE(end + 10); i++) {
+    const method = zip.readUInt16LE(offset + 10);
+    const size = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const name = zip.toString('utf8', offset + 46, offset + 46 + nameLength);
+    const local = zip.readUInt32LE(offset + 42);
+    const start = local + 30 + zip.readUInt16LE(local + 26) + zip.readUInt16LE(local + 28);
+    const data = zip.subarray(start, start + size);
+    entries.set(name, method === 8 ? zlib.inflateRawSync(data) : data);
+    offset += 46 + nameLength + zip.readUInt16LE(offset + 30) + zip.readUInt16LE(offset + 32);
+  }
+  return entries;
+}
+
+test('save a trace of every tool call', async ({ startClient }, testInfo) => {
+  const outputDir = testInfo.outputPath('output');
+  const client = await startClient({ args: ['--output-dir', outputDir, '--save-trace'] });
+  expect((await client.callTool({ name: 'browser_navigate', arguments: { url: page } })).isError).toBeFalsy();
+  expect((await client.callTool({ name: 'browser_snapshot', arguments: {} })).isError).toBeFalsy();
+
+  const traces = await fs.promises.readdir(path.join(outputDir, 'traces'));
+  expect(traces).toEqual([
+    expect.stringMatching(/-browser-navigate-url-data-text-html-title-Title-title-.*\.zip$/),
+    expect.stringMatching(/-browser-snapshot\.zip$/),
+  ]);
+  for (const trace of traces)
+    expect((await fs.promises.stat(path.join(outputDir, 'traces', trace))).size).toBeGreaterThan(0);
+});
+
+test('keep the trace of a failed call in the failure bundle', async ({ startClient }, testInfo) => {
+  const outputDir = testInfo.outputPath('output');
+  const client = await startClient({ args: ['--output-dir', outputDir, '--save-trace'] });
+  await client.callTool({ name: 'browser_navigate', arguments: { url: page } });
+
+  const response = await client.callTool({ name: 'browser_click', arguments: { element: 'Missing button', ref: 's1e42' } });
+  const directory = (response.content as any[])[1].text.match(/^Failure details saved to (.*)$/)[1];
+  expect(fs.existsSync(path.join(directory, 'trace.zip'))).toBe(true);
+  expect(await fs.promises.readdir(path.join(outputDir, 'traces'))).toEqual([
+    expect.stringMatching(/-browser-navigate-/),
+    expect.stringMatching(/-browser-click-element-Missing-button-ref-s1e42\.zip$/),
+  ]);
+});
+
+test('start and stop tracing on demand', async ({ startClient }, testInfo) => {
+  const outputDir = testInfo.outputPath('output');
+  const client = await startClient({ args: ['--output-dir', outputDir] });
+  await client.callTool({ name: 'browser_navigate', arguments: { url: page } });
+  expect(fs.existsSync(path.join(outputDir, 'traces'))).toBe(false);
+
+  expect(await client.callTool({ name: 'browser_start_tracing', arguments: {} })).toEqual({
+    content: [{ type: 'text', text: `Saving a trace of every tool call to ${path.join(outputDir, 'traces')}` }],
+  });
+  await client.callTool({ name: 'browser_snapshot', arguments: {} });
+  const response = await client.callTool({ name: 'browser_stop_tracing', arguments: {} });
+  const traces = await fs.promises.readdir(path.join(outputDir, 'traces'));
+  expect(traces).toEqual([expect.stringMatching(/-browser-snapshot\.zip$/)]);
+  expect(response).toEqual({
+    content: [{ type: 'text', text: `Stopped saving traces. Saved 1 trace to ${path.join(outputDir, 'traces')}\n- ${traces[0]}` }],
+  });
+
+  await client.callTool({ name: 'browser_snapshot', arguments: {} });
+  expect(await fs.promises.readdir(path.join(outputDir, 'traces'))).toEqual(traces);
+});
+
+test('keep the password out of the traces', async ({ startClient, moocs }, testInfo) => {
+  const outputDir = testInfo.outputPath('output');
+  const client = await startClient({ args: [...moocs.args(), '--output-dir', outputDir, '--save-trace'], env: moocs.env() });
+  expect((await client.callTool({ name: 'loginToIniadMoocsWithIniadAccount' })).isError).toBeFalsy();
+
+  const tracesDir = path.join(outputDir, 'traces');
+  expect((await fs.promises.stat(tracesDir)).mode & 0o777).toBe(0o700);
+  const traces = await fs.promises.readdir(tracesDir);
+  expect(traces).toEqual([expect.stringMatching(/-loginToIniadMoocsWithIniadAccount\.zip$/)]);
+  const entries = readZipEntries(path.join(tracesDir, traces[0]));
+  expect(entries.size).toBeGreaterThan(0);
+  for (const [name, data] of entries)
+    expect(data.includes(moocs.password), name).toBe(false);
+});
@@ -0,0 +1,60 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { test, expect } from './fixtures';
+
+const page = `data:text/html,<title>Title</title>
+<button style="position: absolute; left: 0; top: 0; width: 100px; height: 50px" onclick="document.title = 'Clicked'">Click</button>
+<input style="position: absolute; left: 0; top: 100px; width: 100px; height: 50px" onkeydown="if (event.key === 'Enter') document.title = this.value">`;
+
+test('browser_navigate attaches a screenshot', async ({ visionClient }) => {
+  const response = await visionClient.callTool({ name: 'browser_navigate', arguments: { url: page } });
+  const content = response.content as any[];
+  expect(content[0]).toEqual({ type: 'text', text: expect.stringMatching(/^Navigated to data:text\/html/) });
+  expect(content[content.length - 1]).toEqual({ type: 'image', data: expect.any(String), mimeType: 'image/jpeg' });
+});
+
+test('browser_screenshot', async ({ visionClient }) => {
+  await visionClient.callTool({ name: 'browser_navigate', arguments: { url: page } });
+  const response = await visionClient.callTool({ name: 'browser_screenshot' });
+  expect(response.content).toEqual([{ type: 'image', data: expect.any(String), mimeType: 'image/jpeg' }]);
+  expect(Buffer.from((response.content as any)[0].data, 'base64').subarray(0, 2)).toEqual(Buffer.from([0xff, 0xd8]));
+});
+
+test('browser_screen_click and browser_screen_type', async ({ visionClient }) => {
+  await visionClient.callTool({ name: 'browser_navigate', arguments: { url: page } });
+  expect(await visionClient.callTool({
+    name: 'browser_screen_click',
+    arguments: { element: 'Click button', x: 50, y: 25 },
+  })).toHaveTextContent('Clicked "Click button" at (50, 25)');
+  expect(await visionClient.callTool({ name: 'browser_tab_list' })).toHaveTextContent(/\[Clicked\]/);
+
+  await visionClient.callTool({ name: 'browser_screen_click', arguments: { element: 'Textbox', x: 50, y: 125 } });
+  expect(await visionClient.callTool({
+    name: 'browser_screen_type',
+    arguments: { text: 'Typed', submit: true },
+  })).toHaveTextContent('Typed "Typed"');
+  expect(await visionClient.callTool({ name: 'browser_tab_list' })).toHaveTextContent(/\[Typed\]/);
+});
+
+test('readSlide attaches a screenshot in vision mode', async ({ startClient, moocs }) => {
+  const client = await startClient({ args: [...moocs.args(), '--vision'], env: moocs.env() });
+  const response = await client.callTool({ name: 'readSlide', arguments: { url: moocs.url('/courses/2025/CS101/01-intro/1') } });
+  const content = response.content as any[];
+  expect(content).toHaveLength(2);
+  expect(content[0].text).toMatch(/^<!-- .*\/courses\/2025\/CS101\/01-intro\/1 -->/);
+  expect(content[1]).toEqual({ type: 'image', data: expect.any(String), mimeType: 'image/jpeg' });
+});